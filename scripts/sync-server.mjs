@@ -0,0 +1,105 @@
+// A small stand-in for a sync server, implementing docs/sync-protocol.md.
+// It keeps everything in memory, or in a JSON file when SYNC_DATA_FILE is set.
+//
+//   npm run sync-server
+//   PORT=8787 SYNC_TOKEN=secret SYNC_DATA_FILE=sync-data.json npm run sync-server
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = process.env.SYNC_DATA_FILE || '';
+const PAGE_SIZE = 500;
+const COLLECTIONS = ['employees', 'locations', 'timeEntries', 'payments', 'adjustments', 'payrollRuns', 'trash', 'auditLog'];
+
+// `changes` holds the latest change of every record, in the order they were
+// stored; `seq` is the cursor of the last one.
+const state = DATA_FILE && existsSync(DATA_FILE)
+    ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+    : { seq: 0, changes: [] };
+
+const key = (change) => `${change.collection}:${change.id}`;
+const latest = new Map(state.changes.map((change) => [key(change), change]));
+
+const isNewer = (a, b) => (a.modifiedAt !== b.modifiedAt ? a.modifiedAt > b.modifiedAt : a.deviceId > b.deviceId);
+
+const isValidChange = (change) =>
+    change
+    && COLLECTIONS.includes(change.collection)
+    && typeof change.id === 'string'
+    && typeof change.modifiedAt === 'string'
+    && typeof change.deviceId === 'string'
+    && (change.record === null || (typeof change.record === 'object' && change.record.id === change.id));
+
+function save() {
+    if (!DATA_FILE) return;
+    state.changes = [...latest.values()].sort((a, b) => a.seq - b.seq);
+    writeFileSync(DATA_FILE, JSON.stringify(state));
+}
+
+function send(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+async function readJson(req) {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return JSON.parse(body);
+}
+
+function handleChanges(url, res) {
+    const since = Number(url.searchParams.get('since') || 0);
+    const newer = [...latest.values()].filter((change) => change.seq > since).sort((a, b) => a.seq - b.seq);
+    const page = newer.slice(0, PAGE_SIZE);
+    const cursor = page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0);
+    send(res, 200, {
+        changes: page.map(({ seq, ...change }) => change),
+        cursor: String(cursor),
+        hasMore: newer.length > page.length,
+    });
+}
+
+async function handlePush(req, res) {
+    let body;
+    try {
+        body = await readJson(req);
+    } catch {
+        return send(res, 400, { error: 'invalidJson' });
+    }
+    if (!Array.isArray(body?.changes) || !body.changes.every(isValidChange)) {
+        return send(res, 400, { error: 'invalidChanges' });
+    }
+    const rejected = [];
+    body.changes.forEach((change) => {
+        const current = latest.get(key(change));
+        if (current && !isNewer(change, current)) {
+            // The same change pushed twice is not a conflict.
+            if (current.modifiedAt !== change.modifiedAt || current.deviceId !== change.deviceId) {
+                const { seq, ...stored } = current;
+                rejected.push(stored);
+            }
+            return;
+        }
+        state.seq += 1;
+        latest.set(key(change), { ...change, seq: state.seq });
+    });
+    save();
+    send(res, 200, { rejected });
+}
+
+createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'unauthorized' });
+    if (req.method === 'GET' && url.pathname === '/changes') return handleChanges(url, res);
+    if (req.method === 'POST' && url.pathname === '/push') return handlePush(req, res);
+    send(res, 404, { error: 'notFound' });
+}).listen(PORT, () => {
+    console.log(`Sync server listening on http://localhost:${PORT}${DATA_FILE ? `, saving to ${DATA_FILE}` : ''}`);
+});
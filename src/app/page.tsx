@@ -1,4 +1,3 @@
-
 'use client';
 
 import { useState } from 'react';
@@ -6,21 +5,33 @@ import { Header } from '@/components/app/header';
 import { TimeLogList } from '@/components/app/time-log-list';
 import { EmployeeManagement } from '@/components/app/employee-management';
 import { LocationManagement } from '@/components/app/location-management';
+import { PayrollManagement } from '@/components/app/payroll-management';
 import { BottomNavbar } from '@/components/app/bottom-navbar';
-import { AppProvider } from '@/context/app-context';
+import { AppProvider, useAppContext } from '@/context/app-context';
 
 
-export type View = 'time' | 'employees' | 'locations';
+export type View = 'time' | 'employees' | 'locations' | 'payroll';
 
-export default function Home() {
+function AppContent() {
+  const { permissions } = useAppContext();
   const [activeView, setActiveView] = useState<View>('time');
 
+  // Workers only have their hours; payroll is for admins.
+  const views: View[] = [
+    'time',
+    ...(permissions.canLogAnyTime ? ['employees', 'locations'] as View[] : []),
+    ...(permissions.isAdmin ? ['payroll'] as View[] : []),
+  ];
+  const currentView = views.includes(activeView) ? activeView : 'time';
+
   const MainContent = () => {
-    switch (activeView) {
+    switch (currentView) {
       case 'employees':
         return <EmployeeManagement />;
       case 'locations':
         return <LocationManagement />;
+      case 'payroll':
+        return <PayrollManagement />;
       case 'time':
       default:
         return <TimeLogList />;
@@ -29,14 +40,14 @@ export default function Home() {
 
 
   return (
-    <AppProvider>
         <div className="min-h-screen bg-background text-foreground">
           <div className="max-w-7xl mx-auto space-y-8 p-4 md:p-8 pb-24 md:pb-8">
             <Header />
             <main className="space-y-8">
                 <div className="hidden md:block space-y-8">
-                  <EmployeeManagement />
-                  <LocationManagement />
+                  {views.includes('employees') && <EmployeeManagement />}
+                  {views.includes('locations') && <LocationManagement />}
+                  {views.includes('payroll') && <PayrollManagement />}
                   <TimeLogList />
                 </div>
 
@@ -45,8 +56,15 @@ export default function Home() {
                 </div>
             </main>
           </div>
-          <BottomNavbar activeView={activeView} setActiveView={setActiveView} />
+          <BottomNavbar views={views} activeView={currentView} setActiveView={setActiveView} />
         </div>
+  );
+}
+
+export default function Home() {
+  return (
+    <AppProvider>
+      <AppContent />
     </AppProvider>
   );
 }
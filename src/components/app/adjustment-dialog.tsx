@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { getAmountStep } from '@/lib/money';
+
+const adjustmentSchema = (t: (key: string) => string) => z.object({
+  date: z.string().min(1, t('paymentDateRequired')),
+  type: z.enum(['advance', 'fine', 'loanRepayment', 'other']),
+  amount: z.coerce.number().positive(t('adjustmentAmountRequired')),
+  note: z.string().optional(),
+});
+
+interface AdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string | null;
+}
+
+export function AdjustmentDialog({ open, onOpenChange, employeeId }: AdjustmentDialogProps) {
+  const { t } = useTranslation();
+  const { addAdjustment, getEmployeeName, currencySymbol, currency } = useAppContext();
+
+  const form = useForm<z.infer<ReturnType<typeof adjustmentSchema>>>({
+    resolver: zodResolver(adjustmentSchema(t)),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ date: format(new Date(), 'yyyy-MM-dd'), type: 'advance', amount: 0, note: '' });
+    }
+  }, [open]);
+
+  function onSubmit(values: z.infer<ReturnType<typeof adjustmentSchema>>) {
+    if (!employeeId) return;
+    const [year, month, day] = values.date.split('-').map(Number);
+    const date = new Date();
+    date.setFullYear(year, month - 1, day);
+    addAdjustment({
+      employeeId,
+      date: date.toISOString(),
+      type: values.type,
+      amount: values.amount,
+      note: values.note || undefined,
+    });
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('addAdjustment')}</DialogTitle>
+          {employeeId && <DialogDescription>{getEmployeeName(employeeId)}</DialogDescription>}
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>{t('adjustmentType')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="advance">{t('adjustmentType_advance')}</SelectItem>
+                        <SelectItem value="fine">{t('adjustmentType_fine')}</SelectItem>
+                        <SelectItem value="loanRepayment">{t('adjustmentType_loanRepayment')}</SelectItem>
+                        <SelectItem value="other">{t('adjustmentType_other')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>{t('date')}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('amount')} ({currencySymbol})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step={getAmountStep(currency)} placeholder="e.g. 20000" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('note')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="secondary">{t('cancel')}</Button>
+              </DialogClose>
+              <Button type="submit">{t('save')}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { AUDITED_COLLECTIONS, AUDIT_KINDS, filterAuditRecords } from '@/lib/audit';
+import { guessDeviceName } from '@/lib/device';
+import { formatDate } from '@/lib/utils';
+import type { AuditCollection, AuditKind, AuditRecord, TrashItemType } from '@/types';
+import { AuditRecordView } from '@/components/app/audit-trail';
+
+const ALL = 'all';
+// Rendering thousands of records at once makes the dialog slow; narrowing the
+// filters shows older ones.
+const MAX_SHOWN = 200;
+
+const RECORD_TYPES: Record<AuditCollection, TrashItemType> = {
+  timeEntries: 'timeEntry',
+  employees: 'employee',
+  locations: 'location',
+};
+
+interface AuditLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AuditLogDialog({ open, onOpenChange }: AuditLogDialogProps) {
+  const { t } = useTranslation();
+  const { auditLog, timeEntries, employees, locations, trash, getEmployeeName, deviceName, setDeviceName } = useAppContext();
+  const [collection, setCollection] = useState<string>(ALL);
+  const [kind, setKind] = useState<string>(ALL);
+  const [deviceId, setDeviceId] = useState<string>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const devices = [...new Map(auditLog.map((record) => [record.actor.deviceId, record.actor.deviceName])).entries()];
+  const filtered = filterAuditRecords(auditLog, {
+    collection: collection === ALL ? undefined : collection as AuditCollection,
+    kind: kind === ALL ? undefined : kind as AuditKind,
+    deviceId: deviceId === ALL ? undefined : deviceId,
+    from: from || undefined,
+    to: to || undefined,
+  });
+
+  // Names the changed record from its current version, the trash or, for
+  // records that are gone, the values in the log itself.
+  const describeRecord = (record: AuditRecord) => {
+    const logged = Object.fromEntries(record.changes.map((change) => [change.field, change.after ?? change.before]));
+    const current = [...timeEntries, ...employees, ...locations].find((other) => other.id === record.recordId)
+      || trash.find((item) => item.id === record.recordId)?.record;
+    const values = { ...logged, ...current } as Record<string, unknown>;
+    const label = t(`trashItemType_${RECORD_TYPES[record.collection]}`);
+    if (record.collection === 'timeEntries') {
+      const date = typeof values.startTime === 'string' ? formatDate(values.startTime) : '';
+      return `${label}: ${getEmployeeName(String(values.employeeId))} · ${date}`;
+    }
+    return `${label}: ${values.name ?? t('unknown')}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('auditLog')}</DialogTitle>
+          <DialogDescription>{t('auditLogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>{t('auditRecordType')}</Label>
+            <Select value={collection} onValueChange={setCollection}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('all')}</SelectItem>
+                {AUDITED_COLLECTIONS.map((key) => <SelectItem key={key} value={key}>{t(`backupRecords_${key}`)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('auditChangeKind')}</Label>
+            <Select value={kind} onValueChange={setKind}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('all')}</SelectItem>
+                {AUDIT_KINDS.map((key) => <SelectItem key={key} value={key}>{t(`auditKind_${key}`)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('device')}</Label>
+            <Select value={deviceId} onValueChange={setDeviceId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('all')}</SelectItem>
+                {devices.map(([id, name]) => <SelectItem key={id} value={id}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">{t('periodStart')}</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">{t('periodEnd')}</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="device-name">{t('thisDeviceName')}</Label>
+            <Input
+              id="device-name"
+              defaultValue={deviceName}
+              placeholder={guessDeviceName()}
+              onBlur={(e) => setDeviceName(e.target.value.trim())}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t('matchingChanges')}: <span className="font-medium text-foreground">{filtered.length}</span>
+          {filtered.length > MAX_SHOWN && <> · {t('auditShownNewest')}: {MAX_SHOWN}</>}
+        </p>
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {filtered.length > 0
+            ? filtered.slice(0, MAX_SHOWN).map((record) => <AuditRecordView key={record.id} record={record} title={describeRecord(record)} />)
+            : <p className="text-sm text-muted-foreground text-center py-4">{t('noChangesLogged')}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { ChevronDown, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDateTime, formatTime } from '@/lib/utils';
+import type { AuditFieldChange, AuditRecord, Break } from '@/types';
+
+// Fields whose translation key differs from their name.
+const FIELD_LABELS: Record<string, string> = {
+  employeeId: 'employee',
+  locationId: 'location',
+};
+
+const MONEY_FIELDS = ['amount', 'rate'];
+const DATE_FIELDS = ['startTime', 'endTime'];
+
+export function useAuditFormatter() {
+  const { t } = useTranslation();
+  const { getEmployeeName, getLocationName, formatMoney } = useAppContext();
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '–';
+    if (field === 'employeeId') return getEmployeeName(String(value));
+    if (field === 'locationId') return getLocationName(String(value));
+    if (field === 'payModel') return t(`payModel_${value}`);
+    if (MONEY_FIELDS.includes(field) && typeof value === 'number') return formatMoney(value);
+    if (DATE_FIELDS.includes(field) && typeof value === 'string') return formatDateTime(value);
+    if (field === 'breaks' && Array.isArray(value)) {
+      return (value as Break[]).map((pause) => `${formatTime(pause.startTime)}–${formatTime(pause.endTime)}`).join(', ') || '–';
+    }
+    if (typeof value === 'boolean') return value ? t('yes') : t('no');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const formatChange = (change: AuditFieldChange) => ({
+    label: t(FIELD_LABELS[change.field] || change.field),
+    before: formatValue(change.field, change.before),
+    after: formatValue(change.field, change.after),
+  });
+
+  return { formatValue, formatChange };
+}
+
+interface AuditRecordViewProps {
+  record: AuditRecord;
+  // Shown above the changes, e.g. which record was changed.
+  title?: string;
+}
+
+export function AuditRecordView({ record, title }: AuditRecordViewProps) {
+  const { t } = useTranslation();
+  const { formatChange } = useAuditFormatter();
+
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant={record.kind === 'delete' ? 'destructive' : 'secondary'}>{t(`auditKind_${record.kind}`)}</Badge>
+        <span className="font-medium">{formatDateTime(record.timestamp)}</span>
+        <span className="text-muted-foreground">· {record.actor.deviceName} · {t(`historyAction_${record.action}`)}</span>
+      </div>
+      {title && <p className="font-medium">{title}</p>}
+      <ul className="text-sm space-y-1">
+        {record.changes.map((change) => {
+          const { label, before, after } = formatChange(change);
+          return (
+            <li key={change.field}>
+              <span className="text-muted-foreground">{label}:</span>{' '}
+              {record.kind === 'create' || record.kind === 'restore' ? after : record.kind === 'delete' ? before : (
+                <>
+                  <span className="line-through text-muted-foreground">{before}</span> → <span>{after}</span>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+interface RecordAuditTrailProps {
+  recordId: string;
+}
+
+// The change history of one record, collapsed by default.
+export function RecordAuditTrail({ recordId }: RecordAuditTrailProps) {
+  const { t } = useTranslation();
+  const { auditLog } = useAppContext();
+  const records = auditLog.filter((record) => record.recordId === recordId);
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-2">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" /> {t('changeHistory')}: {records.length}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2 max-h-64 overflow-y-auto">
+        {records.length > 0
+          ? records.map((record) => <AuditRecordView key={record.id} record={record} />)
+          : <p className="text-sm text-muted-foreground px-2">{t('noChangesLogged')}</p>}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { RECORD_KEYS, combineData, countRecords, createBackup, parseBackup, type Backup, type ImportMode } from '@/lib/backup';
+import { downloadFile } from '@/lib/csv';
+import { formatDateTime } from '@/lib/utils';
+
+export function BackupSettings() {
+  const { t } = useTranslation();
+  const { exportData, importData, confirmWithPin } = useAppContext();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const handleExport = () => {
+    const backup = createBackup(exportData());
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      `timemaster-backup-${format(new Date(), 'yyyy-MM-dd')}.json`,
+      'application/json'
+    );
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after a cancelled import.
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    if (!result.success) {
+      toast({
+        title: t('backupImportErrorTitle'),
+        description: t(result.error),
+        variant: 'destructive',
+      });
+      return;
+    }
+    setPendingBackup(result.backup);
+    setMode('merge');
+  };
+
+  const handleImport = () => {
+    if (!pendingBackup) return;
+    confirmWithPin(() => {
+      importData(pendingBackup.data, mode);
+      setPendingBackup(null);
+      toast({
+        title: t('backupImportedTitle'),
+        description: t('backupImportedDescription'),
+      });
+    });
+  };
+
+  const current = exportData();
+  const currentCounts = countRecords(current);
+  const backupCounts = pendingBackup ? countRecords(pendingBackup.data) : null;
+  const resultCounts = pendingBackup ? countRecords(combineData(current, pendingBackup.data, mode)) : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t('backupDescription')}</p>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" /> {t('exportBackup')}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" /> {t('importBackup')}
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {pendingBackup && backupCounts && resultCounts && (
+        <div className="space-y-4 border rounded-md p-4">
+          <p className="text-sm">
+            {t('backupFrom')}: <span className="font-medium">{formatDateTime(pendingBackup.exportedAt)}</span> · {t('appVersion')} {pendingBackup.appVersion}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">{t('backupCurrent')}</TableHead>
+                <TableHead className="text-right">{t('backupFile')}</TableHead>
+                <TableHead className="text-right">{t('backupAfterImport')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {RECORD_KEYS.map((key) => (
+                <TableRow key={key}>
+                  <TableCell>{t(`backupRecords_${key}`)}</TableCell>
+                  <TableCell className="text-right">{currentCounts[key]}</TableCell>
+                  <TableCell className="text-right">{backupCounts[key]}</TableCell>
+                  <TableCell className="text-right font-medium">{resultCounts[key]}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="space-y-1">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="merge" id="import-merge" className="mt-1" />
+              <Label htmlFor="import-merge" className="font-normal">
+                <span className="font-medium">{t('importMode_merge')}</span>
+                <span className="block text-muted-foreground">{t('importMode_mergeDescription')}</span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="replace" id="import-replace" className="mt-1" />
+              <Label htmlFor="import-replace" className="font-normal">
+                <span className="font-medium">{t('importMode_replace')}</span>
+                <span className="block text-muted-foreground">{t('importMode_replaceDescription')}</span>
+              </Label>
+            </div>
+          </RadioGroup>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={() => setPendingBackup(null)}>{t('cancel')}</Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant={mode === 'replace' ? 'destructive' : 'default'}>{t('importBackup')}</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {mode === 'replace' ? t('importReplaceConfirmation') : t('importMergeConfirmation')}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleImport}>{t('importBackup')}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,25 @@
 'use client';
 
-import { Clock, Users, MapPin } from 'lucide-react';
+import { Clock, Users, MapPin, Banknote } from 'lucide-react';
 import type { View } from '@/app/page';
 import { cn } from '@/lib/utils';
 import { useTranslation } from '@/hooks/use-translation';
 
 
 interface BottomNavbarProps {
+  views: View[];
   activeView: View;
   setActiveView: (view: View) => void;
 }
 
-export function BottomNavbar({ activeView, setActiveView }: BottomNavbarProps) {
+export function BottomNavbar({ views, activeView, setActiveView }: BottomNavbarProps) {
   const { t } = useTranslation();
   const navItems = [
     { id: 'time', label: t('timeTracking'), icon: Clock },
     { id: 'employees', label: t('employees'), icon: Users },
     { id: 'locations', label: t('locations'), icon: MapPin },
-  ];
+    { id: 'payroll', label: t('payroll'), icon: Banknote },
+  ].filter((item) => views.includes(item.id as View));
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-card border-t shadow-t-lg md:hidden z-10">
@@ -0,0 +1,129 @@
+'use client';
+
+import { useFieldArray, useFormState, type Control } from 'react-hook-form';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import type { Break, TimeEntry } from '@/types';
+import { Button } from '@/components/ui/button';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useTranslation } from '@/hooks/use-translation';
+import { buildBreakTimes, minutesAfter } from '@/lib/utils';
+
+const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const breakFieldsSchema = (t: (key: string) => string) => ({
+  breakMinutes: z.coerce.number().min(0, t('breakMinutesInvalid')).optional(),
+  breaks: z.array(z.object({
+    startTime: z.string().regex(timeRegex, t('invalidTimeFormat')),
+    // An empty end time keeps the break running.
+    endTime: z.string().regex(timeRegex, t('invalidTimeFormat')).or(z.literal('')),
+  })).default([]),
+});
+
+type BreakFormValues = z.infer<z.ZodObject<ReturnType<typeof breakFieldsSchema>>>;
+
+// Every break has to lie inside the entry, and only a running entry may have a running break.
+export function areBreaksWithinEntry(data: BreakFormValues & { startTime: string; endTime: string }) {
+  const entryLength = data.endTime ? minutesAfter(data.startTime, data.endTime) : Infinity;
+  const intervalMinutes = data.breaks.reduce((acc, pause) => {
+    const start = minutesAfter(data.startTime, pause.startTime);
+    const end = pause.endTime ? minutesAfter(data.startTime, pause.endTime) : start;
+    return acc + (end - start);
+  }, 0);
+  const intervalsValid = data.breaks.every((pause) => {
+    const start = minutesAfter(data.startTime, pause.startTime);
+    if (!pause.endTime) return !data.endTime && start < entryLength;
+    const end = minutesAfter(data.startTime, pause.endTime);
+    return start < end && end <= entryLength;
+  });
+  return intervalsValid && intervalMinutes + (data.breakMinutes || 0) < entryLength;
+}
+
+export function toBreakFormValues(entry?: Pick<TimeEntry, 'breaks' | 'breakMinutes'>) {
+  return {
+    breakMinutes: entry?.breakMinutes || 0,
+    breaks: (entry?.breaks || []).map((pause) => ({
+      startTime: format(parseISO(pause.startTime), 'HH:mm'),
+      endTime: pause.endTime ? format(parseISO(pause.endTime), 'HH:mm') : '',
+    })),
+  };
+}
+
+export function fromBreakFormValues(entryStartTime: string, values: BreakFormValues): Pick<TimeEntry, 'breaks' | 'breakMinutes'> {
+  const breaks: Break[] = values.breaks.map((pause) => buildBreakTimes(entryStartTime, pause.startTime, pause.endTime || undefined));
+  return {
+    breaks: breaks.length > 0 ? breaks : undefined,
+    breakMinutes: values.breakMinutes || undefined,
+  };
+}
+
+interface BreakFieldsProps<T extends BreakFormValues> {
+  control: Control<T>;
+}
+
+export function BreakFields<T extends BreakFormValues>({ control: formControl }: BreakFieldsProps<T>) {
+  const { t } = useTranslation();
+  // The form has the break fields, checked by T; their paths can only be
+  // resolved against the break fields themselves.
+  const control = formControl as unknown as Control<BreakFormValues>;
+  const { fields, append, remove } = useFieldArray({ control, name: 'breaks' });
+  const { errors } = useFormState({ control, name: 'breaks' });
+  const breaksError = (errors.breaks?.message || errors.breaks?.root?.message) as string | undefined;
+
+  return (
+    <div className="space-y-2">
+      <FormField
+        control={control}
+        name="breakMinutes"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t('breakMinutes')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
+            <FormControl>
+              <Input type="number" min={0} placeholder="e.g. 30" {...field} onChange={e => field.onChange(e.target.valueAsNumber || 0)} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {fields.map((item, index) => (
+        <div key={item.id} className="flex items-end gap-2">
+          <FormField
+            control={control}
+            name={`breaks.${index}.startTime`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>{t('breakStart')}</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`breaks.${index}.endTime`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>{t('breakEnd')}</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label={t('removeBreak')}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      {breaksError && <p className="text-sm font-medium text-destructive">{breaksError}</p>}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ startTime: '12:00', endTime: '12:30' })}>
+        <PlusCircle className="mr-2 h-4 w-4" /> {t('addBreak')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { MinusCircle, Trash2, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { buildLedger } from '@/lib/ledger';
+import { calculateDuration, cn, formatDate, isRunning } from '@/lib/utils';
+
+interface EmployeeLedgerProps {
+  employeeId: string;
+}
+
+// Chronological list of everything an employee earned, was paid or had
+// deducted, with the balance after each line. Newest lines are shown first.
+export function EmployeeLedger({ employeeId }: EmployeeLedgerProps) {
+  const { t } = useTranslation();
+  const { timeEntries, payments, adjustments, getEarnedAmount, getLocationName, deletePayment, deleteAdjustment, formatMoney, confirmWithPin } = useAppContext();
+
+  const lines = buildLedger(employeeId, timeEntries, payments, adjustments, getEarnedAmount).reverse();
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">{t('noLedgerLines')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('date')}</TableHead>
+          <TableHead>{t('description')}</TableHead>
+          <TableHead className="text-right">{t('earned')}</TableHead>
+          <TableHead className="text-right">{t('paid')}</TableHead>
+          <TableHead className="text-right">{t('deductions')}</TableHead>
+          <TableHead className="text-right">{t('balance')}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line) => (
+          <TableRow key={`${line.type}-${line.id}`}>
+            <TableCell>{formatDate(line.date)}</TableCell>
+            <TableCell>
+              {line.entry && `${getLocationName(line.entry.locationId)} · ${isRunning(line.entry) ? t('running') : calculateDuration(line.entry)}`}
+              {line.payment && (
+                <span className="flex items-center gap-1">
+                  <Wallet className="h-4 w-4 text-muted-foreground" />
+                  {t(`paymentMethod_${line.payment.method}`)}
+                  {line.payment.note && <span className="text-muted-foreground">· {line.payment.note}</span>}
+                </span>
+              )}
+              {line.adjustment && (
+                <span className="flex items-center gap-1">
+                  <MinusCircle className="h-4 w-4 text-muted-foreground" />
+                  {t(`adjustmentType_${line.adjustment.type}`)}
+                  {line.adjustment.note && <span className="text-muted-foreground">· {line.adjustment.note}</span>}
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="text-right">{line.earned ? formatMoney(line.earned) : ''}</TableCell>
+            <TableCell className="text-right">{line.paid ? formatMoney(line.paid) : ''}</TableCell>
+            <TableCell className="text-right">{line.deducted ? formatMoney(line.deducted) : ''}</TableCell>
+            <TableCell className={cn('text-right font-medium', line.balance < 0 && 'text-destructive')}>
+              {formatMoney(line.balance)}
+            </TableCell>
+            <TableCell className="text-right">
+              {(line.payment || line.adjustment) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label={line.payment ? t('deletePayment') : t('deleteAdjustment')}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {line.payment ? t('deletePaymentConfirmation') : t('deleteAdjustmentConfirmation')}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => confirmWithPin(() => (line.payment ? deletePayment(line.id) : deleteAdjustment(line.id)))}>{t('delete')}</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -1,52 +1,75 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format, parseISO, startOfDay } from 'date-fns';
-import { Users, PlusCircle, Trash2, Loader2, History, Edit, Calendar as CalendarIcon, MapPin, CalendarDays, Clock, Info, DollarSign, Printer } from 'lucide-react';
+import { Users, PlusCircle, Trash2, Loader2, History, Edit, Calendar as CalendarIcon, MapPin, CalendarDays, Clock, Info, DollarSign, Printer, TrendingUp, Wallet, BookOpen, MinusCircle, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Calendar } from '@/components/ui/calendar';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useAppContext } from '@/context/app-context';
 import { useTranslation } from '@/hooks/use-translation';
-import { calculateDuration, cn, formatDate, formatTime } from '@/lib/utils';
+import { buildEntryTimes, calculateDuration, calculateGrossDuration, cn, formatMinutes, getBreakMinutes, formatDate, formatEndTime, formatTime, isOvernight, isRunning } from '@/lib/utils';
 import { generatePdfReport } from '@/lib/pdf-generator';
+import { getChainHead } from '@/lib/hash-chain';
+import { getApplicableRate } from '@/lib/wages';
+import { getAmountStep } from '@/lib/money';
+import { PIN_PATTERN, createPinSecret } from '@/lib/pin';
+import { RateHistoryDialog } from '@/components/app/rate-history-dialog';
+import { TimeEntryExportDialog } from '@/components/app/time-entry-export-dialog';
+import { PaymentDialog } from '@/components/app/payment-dialog';
+import { RecordAuditTrail } from '@/components/app/audit-trail';
+import { EmployeeLedger } from '@/components/app/employee-ledger';
+import { AdjustmentDialog } from '@/components/app/adjustment-dialog';
+import { PaidStatus } from '@/components/app/paid-status';
+import { BreakFields, areBreaksWithinEntry, breakFieldsSchema, fromBreakFormValues, toBreakFormValues } from '@/components/app/break-fields';
 import type { TimeEntry, Employee } from '@/types';
 
 
 const employeeSchema = (t: (key: string) => string) => z.object({
   name: z.string().min(1, t('employeeNameRequired')),
+  payModel: z.enum(['none', 'hourly', 'daily', 'fixed']),
+  rate: z.coerce.number().min(0, t('rateInvalid')).optional(),
+  // An empty PIN keeps the current one.
+  pin: z.string().regex(PIN_PATTERN, t('pinInvalid')).or(z.literal('')),
+  pinConfirmation: z.string(),
+}).refine(data => data.payModel === 'none' || data.rate !== undefined, {
+  message: t('rateRequired'),
+  path: ['rate'],
+}).refine(data => data.pin === data.pinConfirmation, {
+  message: t('pinMismatch'),
+  path: ['pinConfirmation'],
 });
 
 const timeEntrySchema = (t: (key: string) => string) => z.object({
   employeeId: z.string().min(1, t('employeeIsRequired')),
   locationId: z.string().min(1, t('locationIsRequired')),
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')),
-  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')),
-  amount: z.coerce.number().optional(),
+  // An empty end time keeps the entry running.
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')).or(z.literal('')),
+  ...breakFieldsSchema(t),
 }).refine(data => {
-  const start = new Date(`1970-01-01T${data.startTime}:00`);
-  const end = new Date(`1970-01-01T${data.endTime}:00`);
-  return start < end;
+  // An end time before the start time is a night shift that ends on the next day.
+  return data.startTime !== data.endTime;
 }, {
-  message: t('endTimeAfterStartTime'),
+  message: t('endTimeEqualsStartTime'),
   path: ['endTime'],
-});
-
-const paymentSchema = (t: (key: string) => string) => z.object({
-  amount: z.coerce.number().min(0, t('paymentAmountRequired')),
+}).refine(areBreaksWithinEntry, {
+  message: t('breaksOutsideEntry'),
+  path: ['breaks'],
 });
 
 const ENTRIES_PER_PAGE = 5;
@@ -58,78 +81,117 @@ export function EmployeeManagement() {
     locations, 
     timeEntries, 
     addEmployee, 
+    updateEmployee,
     deleteEmployee, 
     updateTimeEntry, 
     deleteTimeEntry,
     deleteTimeEntriesForEmployee, 
     getLocationName,
+    getEarnedAmount,
+    payments,
+    adjustments,
+    unmarkEntryPaid,
+    confirmWithPin,
+    getEntryPayments,
+    getEmployeeBalance,
+    formatMoney,
+    currencySymbol,
+    currency,
+    hashChain,
+    tamperEvident,
+    permissions,
   } = useAppContext();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState<{ [key: string]: number }>({});
   const [isAddFormOpen, setIsAddFormOpen] = useState(false);
+  const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [rateHistoryEmployeeId, setRateHistoryEmployeeId] = useState<string | null>(null);
   const [isEditFormDialogOpen, setIsEditFormDialogOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<TimeEntry | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<TimeEntry | null>(null);
-  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [paymentEntry, setPaymentEntry] = useState<TimeEntry | null>(null);
+  const [paymentEmployeeId, setPaymentEmployeeId] = useState<string | null>(null);
+  const [ledgerEmployeeId, setLedgerEmployeeId] = useState<string | null>(null);
+  const [adjustmentEmployeeId, setAdjustmentEmployeeId] = useState<string | null>(null);
+  const [exportEmployeeId, setExportEmployeeId] = useState<string | null>(null);
 
   const timeEntryForm = useForm<z.infer<ReturnType<typeof timeEntrySchema>>>({
     resolver: zodResolver(timeEntrySchema(t)),
   });
-  
-  const paymentForm = useForm<z.infer<ReturnType<typeof paymentSchema>>>({
-    resolver: zodResolver(paymentSchema(t)),
-  });
+
+  const watchedStartTime = timeEntryForm.watch('startTime');
+  const watchedEndTime = timeEntryForm.watch('endTime');
 
   const employeeForm = useForm<z.infer<ReturnType<typeof employeeSchema>>>({
     resolver: zodResolver(employeeSchema(t)),
-    defaultValues: { name: '' },
+    defaultValues: { name: '', payModel: 'none', rate: undefined, pin: '', pinConfirmation: '' },
   });
 
   async function onEmployeeSubmit(values: z.infer<ReturnType<typeof employeeSchema>>) {
     setIsSubmitting(true);
-    addEmployee({ name: values.name });
+    if (editingEmployee) {
+      // Rates of existing employees change through the rate history, so that
+      // entries before the change keep the old rate.
+      updateEmployee({ ...editingEmployee, name: values.name, pin: values.pin ? createPinSecret(values.pin) : editingEmployee.pin });
+    } else {
+      addEmployee({
+        name: values.name,
+        payModel: values.payModel === 'none' ? undefined : values.payModel,
+        rate: values.payModel === 'none' ? undefined : values.rate,
+        pin: values.pin ? createPinSecret(values.pin) : undefined,
+      });
+    }
     employeeForm.reset();
     setIsSubmitting(false);
     setIsAddFormOpen(false);
   }
 
+  const openEmployeeDialogForAdd = () => {
+    setEditingEmployee(null);
+    employeeForm.reset({ name: '', payModel: 'none', rate: undefined, pin: '', pinConfirmation: '' });
+    setIsAddFormOpen(true);
+  };
+
+  const openEmployeeDialogForEdit = (employee: Employee) => {
+    setEditingEmployee(employee);
+    employeeForm.reset({ name: employee.name, payModel: employee.payModel || 'none', rate: employee.rate, pin: '', pinConfirmation: '' });
+    setIsAddFormOpen(true);
+  };
+
+  const formatPayModel = (employee: Employee) => {
+    const current = getApplicableRate(employee, format(new Date(), 'yyyy-MM-dd'));
+    if (!current) return t('noPayModel');
+    return `${t(`payModel_${current.payModel}`)} · ${formatMoney(current.rate)}`;
+  };
+
   function onTimeEntrySubmit(values: z.infer<ReturnType<typeof timeEntrySchema>>) {
-    const createDate = (time: string) => {
-        const [hours, minutes] = time.split(':').map(Number);
-        const date = new Date(selectedDate);
-        date.setHours(hours);
-        date.setMinutes(minutes);
-        date.setSeconds(0);
-        date.setMilliseconds(0);
-        return date.toISOString();
-    }
-    
+    const times = buildEntryTimes(selectedDate, values.startTime, values.endTime);
     const entryData = {
       employeeId: values.employeeId,
       locationId: values.locationId,
-      startTime: createDate(values.startTime),
-      endTime: createDate(values.endTime),
-      amount: values.amount,
+      ...times,
+      ...fromBreakFormValues(times.startTime, values),
     };
 
+    // The paid status is changed through payments only, see PaymentDialog.
     if (editingEntry) {
-      updateTimeEntry({ ...entryData, id: editingEntry.id, paid: editingEntry.paid });
+      updateTimeEntry({ ...entryData, id: editingEntry.id });
     }
     setIsEditFormDialogOpen(false);
   }
 
-  function onPaymentSubmit(values: z.infer<ReturnType<typeof paymentSchema>>) {
-    if (selectedEntry) {
-      updateTimeEntry({ ...selectedEntry, paid: true, amount: values.amount });
-      setSelectedEntry({ ...selectedEntry, paid: true, amount: values.amount });
+  // Keep the detail view in step with payments recorded or removed while it is open.
+  useEffect(() => {
+    if (!selectedEntry) return;
+    const current = timeEntries.find((entry) => entry.id === selectedEntry.id);
+    if (current && current !== selectedEntry) {
+      setSelectedEntry(current);
     }
-    setIsPaymentDialogOpen(false);
-    paymentForm.reset();
-  }
+  }, [timeEntries, selectedEntry]);
   
   const openDialogForEdit = (entry: TimeEntry) => {
     setIsDetailDialogOpen(false);
@@ -139,8 +201,8 @@ export function EmployeeManagement() {
       employeeId: entry.employeeId,
       locationId: entry.locationId,
       startTime: format(parseISO(entry.startTime), "HH:mm"),
-      endTime: format(parseISO(entry.endTime), "HH:mm"),
-      amount: entry.amount,
+      endTime: entry.endTime ? format(parseISO(entry.endTime), "HH:mm") : '',
+      ...toBreakFormValues(entry),
     });
     setIsEditFormDialogOpen(true);
   };
@@ -160,21 +222,25 @@ export function EmployeeManagement() {
       language,
       dir,
       getLocationName,
+      getEarnedAmount,
+      payments: payments.filter(payment => payment.employeeId === employee.id),
+      adjustments: adjustments.filter(adjustment => adjustment.employeeId === employee.id),
+      balance: getEmployeeBalance(employee.id),
+      formatMoney,
+      chainHead: tamperEvident ? getChainHead(hashChain) : undefined,
     });
   };
   
   const handlePaymentClick = (entry: TimeEntry, event: React.MouseEvent) => {
     event.stopPropagation();
-    if (!entry.paid) {
-        setSelectedEntry(entry);
-        paymentForm.reset({ amount: entry.amount || 0 });
-        setIsPaymentDialogOpen(true);
+    if (!entry.paid && !isRunning(entry)) {
+        setPaymentEntry(entry);
     }
   };
 
   const handleMarkAsUnpaid = (entry: TimeEntry, event: React.MouseEvent) => {
     event.stopPropagation();
-    updateTimeEntry({ ...entry, paid: false, amount: undefined });
+    confirmWithPin(() => unmarkEntryPaid(entry.id));
   };
 
 
@@ -182,6 +248,8 @@ export function EmployeeManagement() {
     setCurrentPage(prev => ({...prev, [employeeId]: newPage}));
   }
 
+  const ledgerBalance = ledgerEmployeeId ? getEmployeeBalance(ledgerEmployeeId) : null;
+
   return (
     <>
       <Card>
@@ -194,14 +262,14 @@ export function EmployeeManagement() {
             <CardDescription>{t('manageEmployeesDescription')}</CardDescription>
           </div>
           <Dialog open={isAddFormOpen} onOpenChange={setIsAddFormOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <PlusCircle className="mr-2 h-4 w-4" /> {t('employee')}
-              </Button>
-            </DialogTrigger>
+            {permissions.isAdmin && (
+            <Button onClick={openEmployeeDialogForAdd}>
+              <PlusCircle className="mr-2 h-4 w-4" /> {t('employee')}
+            </Button>
+            )}
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>{t('addNewEmployee')}</DialogTitle>
+                <DialogTitle>{editingEmployee ? t('editEmployee') : t('addNewEmployee')}</DialogTitle>
               </DialogHeader>
               <Form {...employeeForm}>
                 <form onSubmit={employeeForm.handleSubmit(onEmployeeSubmit)} className="space-y-4">
@@ -218,6 +286,85 @@ export function EmployeeManagement() {
                       </FormItem>
                     )}
                   />
+                  {!editingEmployee && (
+                  <div className="flex gap-4">
+                    <FormField
+                      control={employeeForm.control}
+                      name="payModel"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>{t('payModel')}</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">{t('noPayModel')}</SelectItem>
+                              <SelectItem value="hourly">{t('payModel_hourly')}</SelectItem>
+                              <SelectItem value="daily">{t('payModel_daily')}</SelectItem>
+                              <SelectItem value="fixed">{t('payModel_fixed')}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={employeeForm.control}
+                      name="rate"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>{t('rate')} ({currencySymbol})</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step={getAmountStep(currency)}
+                              placeholder="e.g. 35000"
+                              disabled={employeeForm.watch('payModel') === 'none'}
+                              {...field}
+                              value={field.value ?? ''}
+                              onChange={e => field.onChange(Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  )}
+                  <div className="flex gap-4">
+                    <FormField
+                      control={employeeForm.control}
+                      name="pin"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>{t('kioskPin')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
+                          <FormControl>
+                            <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={employeeForm.control}
+                      name="pinConfirmation"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>{t('confirmPin')}</FormLabel>
+                          <FormControl>
+                            <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {editingEmployee?.pin ? `${t('kioskPinDescription')} ${t('keepPinDescription')}` : t('kioskPinDescription')}
+                  </p>
                   <DialogFooter>
                     <DialogClose asChild>
                       <Button type="button" variant="secondary">{t('cancel')}</Button>
@@ -244,6 +391,7 @@ export function EmployeeManagement() {
                 const employeeCurrentPage = currentPage[employee.id] || 1;
                 const totalPages = Math.ceil(employeeWorkHistory.length / ENTRIES_PER_PAGE);
                 const paginatedEntries = employeeWorkHistory.slice((employeeCurrentPage - 1) * ENTRIES_PER_PAGE, employeeCurrentPage * ENTRIES_PER_PAGE);
+                const balance = getEmployeeBalance(employee.id);
 
                 return (
                   <Collapsible key={employee.id} onOpenChange={(isOpen) => {
@@ -258,8 +406,66 @@ export function EmployeeManagement() {
                       <CollapsibleTrigger asChild>
                         <div className="flex-grow cursor-pointer px-2">
                           <p className="font-medium">{employee.name}</p>
+                          <p className="text-xs text-muted-foreground">{formatPayModel(employee)}</p>
                         </div>
                       </CollapsibleTrigger>
+
+                      {permissions.isAdmin && (
+                      <>
+                      <div className="px-2 text-right">
+                        <p className={cn('text-sm font-medium', balance.balance < 0 && 'text-destructive')}>
+                          {formatMoney(balance.balance)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{t('balance')}</p>
+                      </div>
+
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPaymentEmployeeId(employee.id);
+                        }}
+                        aria-label={t('recordPayment')}
+                      >
+                        <Wallet className="h-4 w-4" />
+                      </Button>
+
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setLedgerEmployeeId(employee.id);
+                        }}
+                        aria-label={t('ledger')}
+                      >
+                        <BookOpen className="h-4 w-4" />
+                      </Button>
+
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openEmployeeDialogForEdit(employee);
+                        }}
+                        aria-label={t('editEmployee')}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRateHistoryEmployeeId(employee.id);
+                        }}
+                        aria-label={t('rateHistory')}
+                      >
+                        <TrendingUp className="h-4 w-4" />
+                      </Button>
                       
                       <AlertDialog>
                           <AlertDialogTrigger asChild>
@@ -285,6 +491,8 @@ export function EmployeeManagement() {
                             </AlertDialogFooter>
                           </AlertDialogContent>
                         </AlertDialog>
+                      </>
+                      )}
 
                     </div>
 
@@ -297,6 +505,11 @@ export function EmployeeManagement() {
                           </h4>
                           {hasEntries && (
                              <div className="flex items-center gap-2">
+                              <Button variant="outline" size="sm" onClick={() => setExportEmployeeId(employee.id)}>
+                                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                                {t('exportCsv')}
+                              </Button>
+                              {permissions.isAdmin && (
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button variant="destructive" size="sm">
@@ -313,10 +526,11 @@ export function EmployeeManagement() {
                                   </AlertDialogHeader>
                                   <AlertDialogFooter>
                                     <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
-                                    <AlertDialogAction onClick={() => deleteTimeEntriesForEmployee(employee.id)}>{t('deleteAll')}</AlertDialogAction>
+                                    <AlertDialogAction onClick={() => confirmWithPin(() => deleteTimeEntriesForEmployee(employee.id))}>{t('deleteAll')}</AlertDialogAction>
                                   </AlertDialogFooter>
                                 </AlertDialogContent>
                               </AlertDialog>
+                              )}
                             </div>
                           )}
                         </div>
@@ -327,7 +541,9 @@ export function EmployeeManagement() {
                                 <TableRow>
                                   <TableHead>{t('date')}</TableHead>
                                   <TableHead>{t('location')}</TableHead>
-                                  <TableHead>{t('duration')}</TableHead>
+                                  <TableHead>{t('grossDuration')}</TableHead>
+                                  <TableHead>{t('netDuration')}</TableHead>
+                                  <TableHead>{t('earned')}</TableHead>
                                   <TableHead>{t('paid')}</TableHead>
                                 </TableRow>
                               </TableHeader>
@@ -336,9 +552,13 @@ export function EmployeeManagement() {
                                   <TableRow key={entry.id} onClick={() => openDialogForDetails(entry)} className="cursor-pointer">
                                     <TableCell>{formatDate(entry.startTime)}</TableCell>
                                     <TableCell>{getLocationName(entry.locationId)}</TableCell>
-                                    <TableCell>{calculateDuration(entry.startTime, entry.endTime)}</TableCell>
+                                    <TableCell>{isRunning(entry) ? t('running') : calculateGrossDuration(entry)}</TableCell>
+                                    <TableCell>{isRunning(entry) ? t('running') : calculateDuration(entry)}</TableCell>
+                                    <TableCell>{formatMoney(getEarnedAmount(entry))}</TableCell>
                                     <TableCell>
-                                    {entry.paid ? (
+                                    {!permissions.isAdmin ? (
+                                        <PaidStatus entry={entry} className="p-1" />
+                                      ) : entry.paid ? (
                                         <AlertDialog>
                                             <AlertDialogTrigger asChild>
                                                 <button onClick={(e) => e.stopPropagation()} className="p-1 border rounded-md">
@@ -356,6 +576,8 @@ export function EmployeeManagement() {
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
                                         </AlertDialog>
+                                      ) : isRunning(entry) ? (
+                                        <PaidStatus entry={entry} className="p-1" />
                                       ) : (
                                         <button onClick={(e) => handlePaymentClick(entry, e)} className="p-1 border rounded-md">
                                             <DollarSign className="h-5 w-5 text-destructive" />
@@ -511,7 +733,7 @@ export function EmployeeManagement() {
                           name="endTime"
                           render={({ field }) => (
                               <FormItem className="flex-1">
-                              <FormLabel>{t('endTime')}</FormLabel>
+                              <FormLabel>{t('endTime')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
                               <FormControl>
                                   <Input type="time" {...field} />
                               </FormControl>
@@ -520,19 +742,10 @@ export function EmployeeManagement() {
                           )}
                           />
                       </div>
-                       <FormField
-                          control={timeEntryForm.control}
-                          name="amount"
-                          render={({ field }) => (
-                              <FormItem>
-                              <FormLabel>{t('amount')} ({t('currency')}) <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
-                              <FormControl>
-                                  <Input type="number" placeholder="e.g. 50000" {...field} onChange={e => field.onChange(e.target.valueAsNumber)} />
-                              </FormControl>
-                              <FormMessage />
-                              </FormItem>
-                          )}
-                      />
+                      {watchedStartTime && watchedEndTime && isOvernight(watchedStartTime, watchedEndTime) && (
+                          <p className="text-sm text-muted-foreground">{t('endsNextDay')}</p>
+                      )}
+                      <BreakFields control={timeEntryForm.control} />
                       <DialogFooter>
                       <DialogClose asChild>
                           <Button type="button" variant="secondary">{t('cancel')}</Button>
@@ -584,32 +797,38 @@ export function EmployeeManagement() {
                       <Clock className="h-5 w-5 text-muted-foreground" />
                       <div>
                         <p className="text-sm text-muted-foreground">{t('time')}</p>
-                        <p className="font-medium">{formatTime(selectedEntry.startTime)} - {formatTime(selectedEntry.endTime)}</p>
+                        <p className="font-medium">{formatTime(selectedEntry.startTime)} - {isRunning(selectedEntry) ? t('running') : formatEndTime(selectedEntry.startTime, selectedEntry.endTime)}</p>
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <Info className="h-5 w-5 text-muted-foreground" />
                       <div>
-                        <p className="text-sm text-muted-foreground">{t('duration')}</p>
-                        <p className="font-medium">{calculateDuration(selectedEntry.startTime, selectedEntry.endTime)}</p>
+                        <p className="text-sm text-muted-foreground">{t('netDuration')}</p>
+                        <p className="font-medium">{calculateDuration(selectedEntry)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {t('grossDuration')}: {calculateGrossDuration(selectedEntry)} · {t('breaks')}: {formatMinutes(getBreakMinutes(selectedEntry))}
+                        </p>
                       </div>
                     </div>
+                    {getEarnedAmount(selectedEntry) !== undefined && (
+                      <div className="flex items-center gap-4">
+                        <DollarSign className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <p className="text-sm text-muted-foreground">{t('earned')}</p>
+                          <p className="font-medium">{formatMoney(getEarnedAmount(selectedEntry))}</p>
+                        </div>
+                      </div>
+                    )}
+                    {permissions.isAdmin && (selectedEntry.paid || !isRunning(selectedEntry)) && (
                     <div className="flex items-center space-x-2 pt-4">
                       <Checkbox
                           id="paid"
                           checked={selectedEntry.paid}
                           onCheckedChange={(checked) => {
                               if (!checked) {
-                                const newEntry = { ...selectedEntry, paid: false, amount: undefined };
-                                updateTimeEntry(newEntry);
-                                setSelectedEntry(newEntry);
-                              } else if (selectedEntry.amount === undefined) {
-                                  setIsPaymentDialogOpen(true)
-                              }
-                               else {
-                                  const newEntry = { ...selectedEntry, paid: true };
-                                  updateTimeEntry(newEntry);
-                                  setSelectedEntry(newEntry);
+                                confirmWithPin(() => unmarkEntryPaid(selectedEntry.id));
+                              } else {
+                                setPaymentEntry(selectedEntry);
                               }
                           }}
                       />
@@ -620,16 +839,28 @@ export function EmployeeManagement() {
                           {t('markAsPaid')}
                       </label>
                   </div>
-                  {selectedEntry.paid && selectedEntry.amount && (
+                  )}
+                  {selectedEntry.paid && selectedEntry.amount !== undefined && selectedEntry.amount > 0 && (
                       <div className="flex items-center gap-4">
                           <DollarSign className="h-5 w-5 text-muted-foreground" />
                           <div>
                           <p className="text-sm text-muted-foreground">{t('amountPaid')}</p>
-                          <p className="font-medium">{selectedEntry.amount.toLocaleString()} {t('currency')}</p>
+                          <p className="font-medium">{formatMoney(selectedEntry.amount)}</p>
                           </div>
                       </div>
                   )}
+                  {getEntryPayments(selectedEntry.id).map((payment) => (
+                      <div key={payment.id} className="flex items-center gap-4">
+                          <DollarSign className="h-5 w-5 text-muted-foreground" />
+                          <div>
+                          <p className="text-sm text-muted-foreground">{t('paidWith')} · {formatDate(payment.date)} · {t(`paymentMethod_${payment.method}`)}</p>
+                          <p className="font-medium">{formatMoney(payment.amount)}</p>
+                          </div>
+                      </div>
+                  ))}
+                  <RecordAuditTrail recordId={selectedEntry.id} />
                   </div>
+                  {permissions.canEditEntry(selectedEntry) ? (
                   <DialogFooter className="grid grid-cols-1 sm:grid-cols-3 gap-2">
                     <AlertDialog>
                         <AlertDialogTrigger asChild>
@@ -658,42 +889,71 @@ export function EmployeeManagement() {
                           <Edit className="mr-2 h-4 w-4" /> {t('edit')}
                       </Button>
                   </DialogFooter>
+                  ) : (
+                  <DialogFooter>
+                      <Button type="button" variant="secondary" onClick={() => setIsDetailDialogOpen(false)}>{t('close')}</Button>
+                  </DialogFooter>
+                  )}
                 </>
               )}
             </DialogContent>
           </Dialog>
           
-          {/* Payment Dialog */}
-          <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
-              <DialogContent>
-                  <DialogHeader>
-                      <DialogTitle>{t('enterPaymentAmount')}</DialogTitle>
-                  </DialogHeader>
-                  <Form {...paymentForm}>
-                      <form onSubmit={paymentForm.handleSubmit(onPaymentSubmit)} className="space-y-4">
-                          <FormField
-                          control={paymentForm.control}
-                          name="amount"
-                          render={({ field }) => (
-                              <FormItem>
-                              <FormLabel>{t('amount')} ({t('currency')})</FormLabel>
-                              <FormControl>
-                                  <Input type="number" placeholder="e.g. 50000" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                              </FormItem>
-                          )}
-                          />
-                          <DialogFooter>
-                          <DialogClose asChild>
-                              <Button type="button" variant="secondary">{t('cancel')}</Button>
-                          </DialogClose>
-                          <Button type="submit">{t('saveAndMarkPaid')}</Button>
-                          </DialogFooter>
-                      </form>
-                  </Form>
-              </DialogContent>
+          <TimeEntryExportDialog
+            open={exportEmployeeId !== null}
+            onOpenChange={(isOpen) => !isOpen && setExportEmployeeId(null)}
+            employeeId={exportEmployeeId || undefined}
+          />
+
+          <RateHistoryDialog
+            employee={employees.find((e) => e.id === rateHistoryEmployeeId) || null}
+            open={rateHistoryEmployeeId !== null}
+            onOpenChange={(isOpen) => !isOpen && setRateHistoryEmployeeId(null)}
+          />
+
+          <Dialog open={ledgerEmployeeId !== null} onOpenChange={(isOpen) => !isOpen && setLedgerEmployeeId(null)}>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>{t('ledger')}: {employees.find((e) => e.id === ledgerEmployeeId)?.name}</DialogTitle>
+                {ledgerBalance && (
+                  <DialogDescription>
+                    {t('totalEarned')}: {formatMoney(ledgerBalance.earned)} · {t('totalPaid')}: {formatMoney(ledgerBalance.paid)} · {t('totalDeductions')}: {formatMoney(ledgerBalance.deducted)} · {t('balance')}: {formatMoney(ledgerBalance.balance)}
+                  </DialogDescription>
+                )}
+              </DialogHeader>
+              <ScrollArea className="max-h-[60vh]">
+                {ledgerEmployeeId && <EmployeeLedger employeeId={ledgerEmployeeId} />}
+              </ScrollArea>
+              <DialogFooter className="gap-2">
+                <Button type="button" variant="outline" onClick={() => setAdjustmentEmployeeId(ledgerEmployeeId)}>
+                  <MinusCircle className="mr-2 h-4 w-4" /> {t('addAdjustment')}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setPaymentEmployeeId(ledgerEmployeeId)}>
+                  <Wallet className="mr-2 h-4 w-4" /> {t('recordPayment')}
+                </Button>
+                <Button type="button" variant="secondary" onClick={() => setLedgerEmployeeId(null)}>{t('close')}</Button>
+              </DialogFooter>
+            </DialogContent>
           </Dialog>
+
+          <AdjustmentDialog
+            open={adjustmentEmployeeId !== null}
+            onOpenChange={(isOpen) => !isOpen && setAdjustmentEmployeeId(null)}
+            employeeId={adjustmentEmployeeId}
+          />
+
+          <PaymentDialog
+            open={paymentEntry !== null || paymentEmployeeId !== null}
+            onOpenChange={(isOpen) => {
+              if (!isOpen) {
+                setPaymentEntry(null);
+                setPaymentEmployeeId(null);
+              }
+            }}
+            employeeId={paymentEntry?.employeeId || paymentEmployeeId}
+            entryIds={paymentEntry ? [paymentEntry.id] : []}
+            selectable={paymentEmployeeId !== null}
+          />
       </Card>
     </>
   );
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { isUsingEmulator } from '@/lib/firebase';
+import { DEFAULT_FIRESTORE_SETTINGS } from '@/lib/firestore-sync';
+
+const firestoreSchema = (t: (key: string) => string) => z.object({
+  enabled: z.boolean(),
+  workspaceId: z.string().trim(),
+  joinCode: z.string().trim(),
+}).refine((values) => !values.enabled || /^[A-Za-z0-9_-]{3,64}$/.test(values.workspaceId), { message: t('firestoreWorkspaceInvalid'), path: ['workspaceId'] })
+  .refine((values) => !values.enabled || (values.joinCode.length >= 8 && values.joinCode.length <= 128), { message: t('firestoreJoinCodeInvalid'), path: ['joinCode'] });
+
+export function FirestoreSettings() {
+  const { t } = useTranslation();
+  const { firestoreSettings, configureFirestore, firestoreStatus } = useAppContext();
+
+  const form = useForm<z.infer<ReturnType<typeof firestoreSchema>>>({
+    resolver: zodResolver(firestoreSchema(t)),
+    defaultValues: { ...DEFAULT_FIRESTORE_SETTINGS, ...firestoreSettings },
+  });
+
+  useEffect(() => {
+    form.reset({ ...DEFAULT_FIRESTORE_SETTINGS, ...firestoreSettings });
+  }, [firestoreSettings]);
+
+  if (firestoreStatus === 'unavailable') {
+    return <p className="text-sm text-muted-foreground">{t('firestoreUnavailable')}</p>;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(configureFirestore)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1">
+                <FormLabel>{t('firestoreEnabled')}</FormLabel>
+                <FormDescription>{t('firestoreDescription')}</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="workspaceId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('firestoreWorkspace')}</FormLabel>
+              <FormControl>
+                <Input autoComplete="off" {...field} />
+              </FormControl>
+              <FormDescription>{t('firestoreWorkspaceDescription')}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="joinCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('firestoreJoinCode')}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="off" {...field} />
+              </FormControl>
+              <FormDescription>{t('firestoreJoinCodeDescription')}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className={`text-sm ${firestoreStatus === 'error' ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+            {t(`firestoreState_${firestoreStatus}`)}
+            {isUsingEmulator() && ` · ${t('firestoreEmulator')}`}
+          </p>
+          <Button type="submit">{t('save')}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
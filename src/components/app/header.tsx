@@ -2,21 +2,32 @@
 'use client'
 
 import { useState, useRef } from 'react';
-import { Clock, Globe, Check } from 'lucide-react';
+import { Clock, Globe, Check, Square, Coffee, Play, Settings, Undo2, Redo2, Trash2, History, Cloud, CloudOff, RefreshCw, UserRound, Lock } from 'lucide-react';
 import { useTranslation } from '@/hooks/use-translation';
+import { useNow } from '@/hooks/use-now';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useAppContext } from '@/context/app-context';
+import { formatElapsed, isPaused } from '@/lib/utils';
+import { SettingsDialog } from '@/components/app/settings-dialog';
+import { TrashDialog } from '@/components/app/trash-dialog';
+import { AuditLogDialog } from '@/components/app/audit-log-dialog';
 
 export function Header() {
   const { t, language, setLanguage, languages } = useTranslation();
-  const { generateDemoData } = useAppContext();
+  const { generateDemoData, runningEntries, clockOut, pauseTimeEntry, resumeTimeEntry, getEmployeeName, getLocationName, undo, redo, undoAction, redoAction, trash, syncStatus, syncNow, profiles, activeProfile, switchProfile, permissions, lockSettings, lockApp } = useAppContext();
+  const now = useNow(1000, runningEntries.length > 0);
   const [tapCount, setTapCount] = useState(0);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
   const tapTimeout = useRef<NodeJS.Timeout | null>(null);
 
   const handleHeaderClick = () => {
@@ -44,6 +55,66 @@ export function Header() {
         <Clock className="w-8 h-8 text-primary" />
         <h1 className="text-2xl font-bold text-primary">{t('appTitle')}</h1>
       </div>
+      <div className="flex items-center gap-2">
+      {runningEntries.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              <span className="font-mono">{formatElapsed(runningEntries[runningEntries.length - 1], now)}</span>
+              {runningEntries.length > 1 && <span className="text-muted-foreground">+{runningEntries.length - 1}</span>}
+              <span className="sr-only">{t('runningEntries')}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-2">
+            <p className="text-sm font-semibold">{t('runningEntries')}</p>
+            {runningEntries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 border rounded-md p-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{getEmployeeName(entry.employeeId)}</p>
+                  <p className="text-xs text-muted-foreground truncate">{getLocationName(entry.locationId)}</p>
+                  <p className="font-mono text-sm">{isPaused(entry) ? t('paused') : formatElapsed(entry, now)}</p>
+                </div>
+                {permissions.canEditEntry(entry) && (
+                <div className="flex gap-1">
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => (isPaused(entry) ? resumeTimeEntry(entry.id) : pauseTimeEntry(entry.id))}
+                  aria-label={isPaused(entry) ? t('resume') : t('pause')}
+                >
+                  {isPaused(entry) ? <Play className="h-4 w-4" /> : <Coffee className="h-4 w-4" />}
+                </Button>
+                <Button size="icon" variant="destructive" onClick={() => clockOut(entry.id)} aria-label={t('clockOut')}>
+                  <Square className="h-4 w-4" />
+                </Button>
+                </div>
+                )}
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={undo}
+        disabled={!undoAction}
+        title={undoAction ? `${t('undo')}: ${t(`historyAction_${undoAction}`)}` : t('undo')}
+      >
+        <Undo2 className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">{t('undo')}</span>
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={redo}
+        disabled={!redoAction}
+        title={redoAction ? `${t('redo')}: ${t(`historyAction_${redoAction}`)}` : t('redo')}
+      >
+        <Redo2 className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">{t('redo')}</span>
+      </Button>
        <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button variant="outline" size="icon">
@@ -60,6 +131,73 @@ export function Header() {
           ))}
         </DropdownMenuContent>
       </DropdownMenu>
+      {profiles.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <UserRound className="h-[1.2rem] w-[1.2rem]" />
+              <span className="hidden sm:inline max-w-32 truncate">{activeProfile?.name}</span>
+              <span className="sr-only">{t('switchProfile')}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>{t('switchProfile')}</DropdownMenuLabel>
+            {profiles.map((profile) => (
+              <DropdownMenuItem key={profile.id} onClick={() => switchProfile(profile.id)}>
+                <Check className={`mr-2 h-4 w-4 ${activeProfile?.id === profile.id ? "opacity-100" : "opacity-0"}`} />
+                {profile.name}
+                <span className="ml-auto pl-4 text-xs text-muted-foreground">{t(`role_${profile.role}`)}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+      {syncStatus.state !== 'disabled' && (
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative"
+          onClick={syncNow}
+          title={`${t(`syncState_${syncStatus.state}`)} · ${t('syncPending')}: ${syncStatus.pending}`}
+        >
+          {syncStatus.state === 'syncing' ? <RefreshCw className="h-[1.2rem] w-[1.2rem] animate-spin" />
+            : syncStatus.state === 'offline' || syncStatus.state === 'error' ? <CloudOff className={`h-[1.2rem] w-[1.2rem] ${syncStatus.state === 'error' ? 'text-destructive' : ''}`} />
+            : <Cloud className="h-[1.2rem] w-[1.2rem]" />}
+          {syncStatus.pending > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-muted-foreground text-background text-[10px] leading-4">{syncStatus.pending}</span>
+          )}
+          <span className="sr-only">{t('syncNow')}</span>
+        </Button>
+      )}
+      {lockSettings.mode !== 'off' && (
+        <Button variant="outline" size="icon" onClick={lockApp}>
+          <Lock className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">{t('lockApp')}</span>
+        </Button>
+      )}
+      {permissions.isAdmin && (
+      <>
+      <Button variant="outline" size="icon" className="relative" onClick={() => setIsTrashOpen(true)}>
+        <Trash2 className="h-[1.2rem] w-[1.2rem]" />
+        {trash.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-muted-foreground text-background text-[10px] leading-4">{trash.length}</span>
+        )}
+        <span className="sr-only">{t('trash')}</span>
+      </Button>
+      <Button variant="outline" size="icon" onClick={() => setIsAuditLogOpen(true)}>
+        <History className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">{t('auditLog')}</span>
+      </Button>
+      <Button variant="outline" size="icon" onClick={() => setIsSettingsOpen(true)}>
+        <Settings className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">{t('settings')}</span>
+      </Button>
+      </>
+      )}
+      </div>
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+      <TrashDialog open={isTrashOpen} onOpenChange={setIsTrashOpen} />
+      <AuditLogDialog open={isAuditLogOpen} onOpenChange={setIsAuditLogOpen} />
     </header>
   );
 }
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { findLinkByHash, type ChainVerification } from '@/lib/hash-chain';
+import type { ChainCollection } from '@/types';
+import { formatDate, formatDateTime } from '@/lib/utils';
+
+export function IntegritySettings() {
+  const { t } = useTranslation();
+  const {
+    timeEntries,
+    payments,
+    hashChain,
+    tamperEvident,
+    setTamperEvident,
+    sealUnsealedRecords,
+    verifyIntegrity,
+    getEmployeeName,
+    formatMoney,
+  } = useAppContext();
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [printedHash, setPrintedHash] = useState('');
+
+  const printedLink = findLinkByHash(hashChain, printedHash);
+  const hasUnsealed = verification?.flagged.some((flag) => flag.reason === 'unsealed');
+  const hasFindings = !!verification && (verification.brokenLinks.length > 0 || verification.flagged.length > 0 || verification.resealed.length > 0);
+
+  const describe = ({ collection, recordId }: { collection: ChainCollection; recordId: string }) => {
+    if (collection === 'timeEntries') {
+      const entry = timeEntries.find((other) => other.id === recordId);
+      return entry ? `${t('trashItemType_timeEntry')}: ${getEmployeeName(entry.employeeId)} · ${formatDate(entry.startTime)}` : `${t('trashItemType_timeEntry')}: ${recordId}`;
+    }
+    const payment = payments.find((other) => other.id === recordId);
+    return payment ? `${t('payment')}: ${getEmployeeName(payment.employeeId)} · ${formatDate(payment.date)} · ${formatMoney(payment.amount)}` : `${t('payment')}: ${recordId}`;
+  };
+
+  const shortHash = (hash: string) => hash.slice(0, 12);
+
+  const handleSeal = () => {
+    sealUnsealedRecords();
+    setVerification(null);
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="tamper-evident">{t('tamperEvidentMode')}</Label>
+          <p className="text-sm text-muted-foreground">{t('tamperEvidentModeDescription')}</p>
+        </div>
+        <Switch id="tamper-evident" checked={tamperEvident} onCheckedChange={setTamperEvident} />
+      </div>
+
+      {(tamperEvident || hashChain.length > 0) && (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {t('chainLinks')}: <span className="font-medium text-foreground">{hashChain.length}</span>
+            </p>
+            <Button variant="outline" onClick={() => setVerification(verifyIntegrity())}>
+              <ShieldCheck className="mr-2 h-4 w-4" /> {t('verifyChain')}
+            </Button>
+          </div>
+
+          {verification && (
+            <div className="space-y-3 border rounded-md p-3">
+              <p className={`flex items-center gap-2 font-medium ${hasFindings ? 'text-destructive' : ''}`}>
+                {hasFindings ? <ShieldAlert className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+                {verification.brokenLinks.length > 0
+                  ? `${t('chainBrokenAt')}: #${verification.brokenLinks[0].seq}`
+                  : verification.flagged.length > 0 ? `${t('chainFlaggedRecords')}: ${verification.flagged.length}`
+                  : verification.resealed.length > 0 ? `${t('chainResealedRecords')}: ${verification.resealed.length}` : t('chainIntact')}
+              </p>
+              {verification.head && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">{t('chainHead')}:</span> #{verification.head.seq}{' '}
+                  <span className="font-mono break-all">{verification.head.hash}</span>
+                </p>
+              )}
+              {verification.flagged.length > 0 && (
+                <ul className="max-h-60 overflow-y-auto space-y-2">
+                  {verification.flagged.map((flag) => (
+                    <li key={`${flag.collection}:${flag.recordId}`} className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge variant={flag.reason === 'unsealed' ? 'secondary' : 'destructive'}>{t(`chainFlag_${flag.reason}`)}</Badge>
+                      <span>{describe(flag)}</span>
+                      {flag.sealedAt && <span className="text-muted-foreground">· {t('sealedAt')}: {formatDateTime(flag.sealedAt)}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {verification.resealed.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">{t('chainResealedDescription')}</p>
+                  <ul className="max-h-60 overflow-y-auto space-y-2">
+                    {verification.resealed.map((link) => (
+                      <li key={link.id} className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant="destructive">{t('chainFlag_resealed')}</Badge>
+                        <span>{describe(link)}</span>
+                        <span className="text-muted-foreground">· #{link.seq} · {formatDateTime(link.timestamp)}</span>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {link.prevRecordHash ? shortHash(link.prevRecordHash) : '?'} → {shortHash(link.recordHash ?? '')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {hasUnsealed && tamperEvident && (
+                <Button variant="outline" size="sm" onClick={handleSeal}>{t('sealUnsealedRecords')}</Button>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="printed-hash">{t('checkPrintedHash')}</Label>
+            <Input
+              id="printed-hash"
+              className="font-mono"
+              value={printedHash}
+              onChange={(e) => setPrintedHash(e.target.value)}
+              placeholder={t('checkPrintedHashPlaceholder')}
+            />
+            {printedHash.trim() && (
+              <p className={`text-sm ${printedLink ? 'text-muted-foreground' : 'text-destructive'}`}>
+                {printedLink
+                  ? `${t('printedHashFound')}: #${printedLink.seq} / ${hashChain.length} · ${formatDateTime(printedLink.timestamp)}`
+                  : t('printedHashNotFound')}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
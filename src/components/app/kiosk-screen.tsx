@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Clock, LogIn, LogOut, Maximize, MapPin, ShieldCheck, UserRound } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAppContext } from '@/context/app-context';
+import { useNow } from '@/hooks/use-now';
+import { useTranslation } from '@/hooks/use-translation';
+import { PinForm } from '@/components/app/pin-form';
+import { getInitials } from '@/lib/kiosk';
+import { employeePinKey, getPinKey } from '@/lib/pin';
+import { formatTime } from '@/lib/utils';
+import type { Employee } from '@/types';
+
+type KioskStep =
+  | { kind: 'employees' }
+  | { kind: 'pin'; employee: Employee }
+  | { kind: 'punch'; employee: Employee }
+  | { kind: 'done'; employee: Employee; clockedIn: boolean; time: string }
+  | { kind: 'admin' };
+
+// Back to the employee grid when a worker walks away halfway, and shortly
+// after the confirmation.
+const STEP_TIMEOUT_MS = 30 * 1000;
+const CONFIRMATION_TIMEOUT_MS = 5 * 1000;
+
+const toggleFullScreen = () => {
+  const request = document.fullscreenElement ? document.exitFullscreen() : document.documentElement.requestFullscreen();
+  request.catch((error) => console.error('Error toggling full screen', error));
+};
+
+// Shown instead of the app on a kiosk device: workers pick their name, enter
+// their PIN and clock in or out at the kiosk's location. Everything else
+// takes the admin PIN.
+export function KioskScreen() {
+  const { t, language } = useTranslation();
+  const { kioskEmployees, kioskLocation, getRunningEntry, getLocationName, checkKioskPin, kioskClockIn, kioskClockOut, unlockKiosk, lockSettings, profiles } = useAppContext();
+  const [step, setStep] = useState<KioskStep>({ kind: 'employees' });
+  // With profile PINs, the admin who leaves the kiosk is picked first, so that
+  // wrong PINs count against that admin's PIN.
+  const admins = lockSettings.mode === 'profile' ? profiles.filter((profile) => profile.role === 'admin') : [];
+  const [adminId, setAdminId] = useState(admins[0]?.id);
+  const admin = admins.find((profile) => profile.id === adminId);
+  const now = useNow(1000);
+
+  useEffect(() => {
+    if (step.kind === 'employees') return;
+    const timeout = setTimeout(() => setStep({ kind: 'employees' }), step.kind === 'done' ? CONFIRMATION_TIMEOUT_MS : STEP_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [step]);
+
+  const backToEmployees = () => setStep({ kind: 'employees' });
+
+  const punch = (employee: Employee) => {
+    const running = getRunningEntry(employee.id);
+    if (running) {
+      kioskClockOut(running.id);
+    } else {
+      kioskClockIn(employee.id);
+    }
+    setStep({ kind: 'done', employee, clockedIn: !running, time: new Date().toISOString() });
+  };
+
+  const renderStep = () => {
+    switch (step.kind) {
+      case 'pin':
+        return (
+          <Card className="max-w-sm w-full">
+            <CardHeader className="items-center text-center">
+              <Avatar className="h-16 w-16 text-xl">
+                <AvatarFallback>{getInitials(step.employee.name)}</AvatarFallback>
+              </Avatar>
+              <CardTitle>{step.employee.name}</CardTitle>
+              <CardDescription>{t('kioskEnterPin')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PinForm
+                throttleKey={employeePinKey(step.employee.id)}
+                onSubmit={(pin) => {
+                  const result = checkKioskPin(step.employee.id, pin);
+                  if (result === 'ok') setStep({ kind: 'punch', employee: step.employee });
+                  return result;
+                }}
+                submitLabel={t('confirm')}
+                onCancel={backToEmployees}
+              />
+            </CardContent>
+          </Card>
+        );
+      case 'punch': {
+        const running = getRunningEntry(step.employee.id);
+        return (
+          <Card className="max-w-md w-full">
+            <CardHeader className="items-center text-center">
+              <CardTitle className="text-2xl">{step.employee.name}</CardTitle>
+              <CardDescription>
+                {running
+                  ? `${t('kioskClockedInSince')}: ${formatTime(running.startTime, language)} · ${getLocationName(running.locationId)}`
+                  : `${t('location')}: ${kioskLocation?.name}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Button
+                type="button"
+                size="lg"
+                variant={running ? 'destructive' : 'default'}
+                className="w-full h-32 text-3xl gap-4"
+                onClick={() => punch(step.employee)}
+              >
+                {running ? <LogOut className="h-10 w-10" /> : <LogIn className="h-10 w-10" />}
+                {running ? t('clockOut') : t('clockIn')}
+              </Button>
+              <Button type="button" variant="secondary" className="w-full" onClick={backToEmployees}>{t('cancel')}</Button>
+            </CardContent>
+          </Card>
+        );
+      }
+      case 'done':
+        return (
+          <Card className="max-w-md w-full">
+            <CardHeader className="items-center text-center">
+              <CheckCircle2 className="h-20 w-20 text-primary" />
+              <CardTitle className="text-2xl">{step.employee.name}</CardTitle>
+              <CardDescription className="text-lg">
+                {`${step.clockedIn ? t('kioskClockedIn') : t('kioskClockedOut')}: ${formatTime(step.time, language)}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button type="button" className="w-full" onClick={backToEmployees}>{t('done')}</Button>
+            </CardContent>
+          </Card>
+        );
+      case 'admin':
+        return (
+          <Card className="max-w-sm w-full">
+            <CardHeader className="items-center text-center">
+              <ShieldCheck className="h-10 w-10 text-primary" />
+              <CardTitle>{t('kioskAdmin')}</CardTitle>
+              <CardDescription>{t('kioskAdminDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {admins.length > 1 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {admins.map((profile) => (
+                    <Button
+                      key={profile.id}
+                      type="button"
+                      variant={profile.id === adminId ? 'default' : 'outline'}
+                      className="justify-start"
+                      onClick={() => setAdminId(profile.id)}
+                    >
+                      <UserRound className="mr-2 h-4 w-4 shrink-0" />
+                      <span className="truncate">{profile.name}</span>
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <PinForm
+                key={adminId}
+                throttleKey={getPinKey(lockSettings, admin)}
+                onSubmit={(pin) => unlockKiosk(pin, adminId)}
+                submitLabel={t('unlock')}
+                onCancel={backToEmployees}
+              />
+            </CardContent>
+          </Card>
+        );
+      default:
+        if (!kioskLocation) {
+          return <p className="text-lg text-muted-foreground text-center">{t('kioskNoLocation')}</p>;
+        }
+        if (kioskEmployees.length === 0) {
+          return <p className="text-lg text-muted-foreground text-center">{t('kioskNoEmployees')}</p>;
+        }
+        return (
+          <div className="w-full self-start grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+            {kioskEmployees.map((employee) => {
+              const isClockedIn = !!getRunningEntry(employee.id);
+              return (
+                <Button
+                  key={employee.id}
+                  type="button"
+                  variant="outline"
+                  className="relative h-40 flex-col gap-3 text-lg whitespace-normal"
+                  onClick={() => setStep({ kind: 'pin', employee })}
+                >
+                  <Avatar className="h-16 w-16 text-xl">
+                    <AvatarFallback>{getInitials(employee.name)}</AvatarFallback>
+                  </Avatar>
+                  <span className="line-clamp-2 text-center">{employee.name}</span>
+                  {isClockedIn && <span className="absolute top-3 right-3 h-3 w-3 rounded-full bg-primary" aria-label={t('kioskClockedIn')} />}
+                </Button>
+              );
+            })}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 p-4 bg-card shadow-md">
+        <div className="flex items-center gap-3 min-w-0">
+          <Clock className="w-8 h-8 text-primary shrink-0" />
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-primary tabular-nums">{formatTime(now.toISOString(), language)}</h1>
+            <p className="flex items-center gap-1 text-sm text-muted-foreground truncate">
+              <MapPin className="h-4 w-4 shrink-0" /> {kioskLocation?.name ?? t('kioskNoLocation')}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={toggleFullScreen}>
+            <Maximize className="h-[1.2rem] w-[1.2rem]" />
+            <span className="sr-only">{t('kioskFullScreen')}</span>
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={() => setStep({ kind: 'admin' })}>
+            <ShieldCheck className="h-[1.2rem] w-[1.2rem]" />
+            <span className="hidden sm:inline">{t('kioskAdmin')}</span>
+          </Button>
+        </div>
+      </header>
+      <main className="flex-1 overflow-y-auto p-4 flex items-center justify-center">
+        {renderStep()}
+      </main>
+    </div>
+  );
+}
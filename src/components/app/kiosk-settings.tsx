@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+
+const kioskSchema = (t: (key: string) => string) => z.object({
+  enabled: z.boolean(),
+  locationId: z.string(),
+}).refine((values) => !values.enabled || values.locationId !== '', { message: t('kioskLocationRequiredDescription'), path: ['locationId'] });
+
+export function KioskSettings() {
+  const { t } = useTranslation();
+  const { kioskSettings, configureKiosk, locations, lockSettings, employees } = useAppContext();
+  const employeesWithPin = employees.filter((employee) => employee.pin).length;
+
+  const form = useForm<z.infer<ReturnType<typeof kioskSchema>>>({
+    resolver: zodResolver(kioskSchema(t)),
+  });
+
+  useEffect(() => {
+    form.reset({ enabled: kioskSettings.enabled, locationId: kioskSettings.locationId ?? '' });
+  }, [kioskSettings]);
+
+  function onSubmit(values: z.infer<ReturnType<typeof kioskSchema>>) {
+    configureKiosk({ enabled: values.enabled, locationId: values.locationId || null });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1">
+                <FormLabel>{t('kioskMode')}</FormLabel>
+                <FormDescription>{t('kioskModeDescription')}</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="locationId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('kioskLocation')}</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('selectLocation')} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {locations.map((location) => <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {lockSettings.mode === 'off' ? t('kioskLockRequiredDescription') : `${t('kioskEmployees')}: ${employeesWithPin}`}
+          </p>
+          <Button type="submit">{t('save')}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
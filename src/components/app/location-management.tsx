@@ -41,7 +41,7 @@ const locationSchema = (t: (key: string) => string) => z.object({
 
 export function LocationManagement() {
   const { t } = useTranslation();
-  const { locations, addLocation, deleteLocation, timeEntries } = useAppContext();
+  const { locations, addLocation, deleteLocation, timeEntries, permissions } = useAppContext();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const form = useForm<z.infer<ReturnType<typeof locationSchema>>>({
@@ -67,6 +67,7 @@ export function LocationManagement() {
             </CardTitle>
             <CardDescription>{t('manageLocationsDescription')}</CardDescription>
         </div>
+        {permissions.isAdmin && (
          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
             <Button>
@@ -105,6 +106,7 @@ export function LocationManagement() {
             </Form>
           </DialogContent>
         </Dialog>
+        )}
       </CardHeader>
       <CardContent>
         <div>
@@ -112,7 +114,7 @@ export function LocationManagement() {
             <TableHeader>
               <TableRow>
                 <TableHead>{t('name')}</TableHead>
-                <TableHead className="text-right">{t('action')}</TableHead>
+                {permissions.isAdmin && <TableHead className="text-right">{t('action')}</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -122,6 +124,7 @@ export function LocationManagement() {
                   return (
                     <TableRow key={location.id}>
                       <TableCell>{location.name}</TableCell>
+                      {permissions.isAdmin && (
                       <TableCell className="text-right">
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
@@ -148,12 +151,13 @@ export function LocationManagement() {
                           </AlertDialogContent>
                         </AlertDialog>
                       </TableCell>
+                      )}
                     </TableRow>
                   );
                 })
               ) : (
                 <TableRow>
-                  <TableCell colSpan={2} className="text-center text-muted-foreground">
+                  <TableCell colSpan={permissions.isAdmin ? 2 : 1} className="text-center text-muted-foreground">
                     {t('noLocations')}
                   </TableCell>
                 </TableRow>
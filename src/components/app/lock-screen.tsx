@@ -0,0 +1,54 @@
+'use client';
+
+import { useState } from 'react';
+import { Clock, Lock, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { PinForm } from '@/components/app/pin-form';
+import { getPinKey } from '@/lib/pin';
+
+// Shown instead of the app while it is locked. With profile PINs, unlocking
+// also picks the profile.
+export function LockScreen() {
+  const { t } = useTranslation();
+  const { lockSettings, profiles, activeProfile, unlockApp } = useAppContext();
+  const [profileId, setProfileId] = useState(activeProfile?.id);
+  const chooseProfile = lockSettings.mode === 'profile';
+  const profile = profiles.find((other) => other.id === profileId) ?? activeProfile;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="max-w-sm w-full">
+        <CardHeader className="items-center text-center">
+          <Clock className="w-10 h-10 text-primary" />
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {t('appLocked')}
+          </CardTitle>
+          <CardDescription>{chooseProfile ? t('appLockedProfileDescription') : t('appLockedDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {chooseProfile && (
+            <div className="grid grid-cols-2 gap-2">
+              {profiles.map((profile) => (
+                <Button
+                  key={profile.id}
+                  type="button"
+                  variant={profile.id === profileId ? 'default' : 'outline'}
+                  className="justify-start"
+                  onClick={() => setProfileId(profile.id)}
+                >
+                  <UserRound className="mr-2 h-4 w-4 shrink-0" />
+                  <span className="truncate">{profile.name}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+          <PinForm key={profileId} throttleKey={getPinKey(lockSettings, profile)} onSubmit={(pin) => unlockApp(pin, profileId)} submitLabel={t('unlock')} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { IDLE_TIMEOUT_OPTIONS, LOCK_MODES, PIN_PATTERN, createPinSecret } from '@/lib/pin';
+
+// An empty PIN keeps the current one.
+const lockSchema = (t: (key: string) => string, hasAppPin: boolean) => z.object({
+  mode: z.enum(['off', 'app', 'profile']),
+  idleMinutes: z.coerce.number(),
+  pin: z.string().regex(PIN_PATTERN, t('pinInvalid')).or(z.literal('')),
+  pinConfirmation: z.string(),
+}).refine((values) => values.mode !== 'app' || hasAppPin || values.pin !== '', {
+  message: t('pinInvalid'),
+  path: ['pin'],
+}).refine((values) => values.pin === values.pinConfirmation, {
+  message: t('pinMismatch'),
+  path: ['pinConfirmation'],
+});
+
+export function LockSettings() {
+  const { t } = useTranslation();
+  const { lockSettings, configureLock, confirmWithPin } = useAppContext();
+  const schema = lockSchema(t, lockSettings.appPin !== null);
+
+  const form = useForm<z.input<typeof schema>, unknown, z.output<typeof schema>>({
+    resolver: zodResolver(schema),
+  });
+  const mode = form.watch('mode');
+
+  const resetForm = () => form.reset({ mode: lockSettings.mode, idleMinutes: lockSettings.idleMinutes, pin: '', pinConfirmation: '' });
+
+  useEffect(() => {
+    resetForm();
+  }, [lockSettings]);
+
+  // Changing the lock takes the current PIN.
+  function onSubmit(values: z.output<typeof schema>) {
+    confirmWithPin(() => {
+      configureLock({
+        mode: values.mode,
+        idleMinutes: values.idleMinutes,
+        appPin: values.pin ? createPinSecret(values.pin) : lockSettings.appPin,
+      });
+      resetForm();
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <h3 className="font-semibold">{t('appLock')}</h3>
+          <p className="text-sm text-muted-foreground">{t('appLockDescription')}</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('lockMode')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {LOCK_MODES.map((value) => <SelectItem key={value} value={value}>{t(`lockMode_${value}`)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="idleMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('idleTimeout')}</FormLabel>
+                <Select onValueChange={field.onChange} value={String(field.value)} disabled={mode === 'off'}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {IDLE_TIMEOUT_OPTIONS.map((minutes) => <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {mode === 'app' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="pin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{lockSettings.appPin ? t('newPin') : t('pin')}</FormLabel>
+                  <FormControl>
+                    <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                  </FormControl>
+                  {lockSettings.appPin && <FormDescription>{t('keepPinDescription')}</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="pinConfirmation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('confirmPin')}</FormLabel>
+                  <FormControl>
+                    <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        {mode === 'profile' && <p className="text-sm text-muted-foreground">{t('profilePinsDescription')}</p>}
+        <div className="flex justify-end">
+          <Button type="submit">{t('save')}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
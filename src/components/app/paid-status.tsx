@@ -0,0 +1,17 @@
+'use client';
+
+import { DollarSign } from 'lucide-react';
+import type { TimeEntry } from '@/types';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+// The paid status of an entry, for profiles that may not change it and for
+// running entries, which cannot be paid yet.
+export function PaidStatus({ entry, className }: { entry: TimeEntry; className?: string }) {
+  const { t } = useTranslation();
+  return (
+    <span className={cn('inline-flex', className)} title={entry.paid ? t('paid') : t('unpaid')}>
+      <DollarSign className={cn('h-5 w-5', entry.paid ? 'text-green-500' : 'text-muted-foreground')} />
+    </span>
+  );
+}
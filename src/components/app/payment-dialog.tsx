@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { calculateDuration, formatDate, isRunning } from '@/lib/utils';
+import { getAmountStep } from '@/lib/money';
+
+const paymentSchema = (t: (key: string) => string) => z.object({
+  date: z.string().min(1, t('paymentDateRequired')),
+  amount: z.coerce.number().min(0, t('paymentAmountRequired')),
+  method: z.enum(['cash', 'bankTransfer', 'other']),
+  note: z.string().optional(),
+  entryIds: z.array(z.string()),
+  adjustmentIds: z.array(z.string()),
+});
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string | null;
+  // Entries the payment settles. When `selectable` is set, the user can pick
+  // any of the employee's unpaid entries instead.
+  entryIds?: string[];
+  selectable?: boolean;
+}
+
+export function PaymentDialog({ open, onOpenChange, employeeId, entryIds = [], selectable = false }: PaymentDialogProps) {
+  const { t } = useTranslation();
+  const { timeEntries, addPayment, getEarnedAmount, getEmployeeName, getOutstandingAdjustments, formatMoney, currencySymbol, currency, confirmWithPin } = useAppContext();
+
+  const form = useForm<z.infer<ReturnType<typeof paymentSchema>>>({
+    resolver: zodResolver(paymentSchema(t)),
+  });
+
+  const outstandingAdjustments = employeeId ? getOutstandingAdjustments(employeeId) : [];
+
+  // What is left to pay for the selected entries once the selected advances
+  // and deductions are netted against them.
+  const netAmountFor = (ids: string[], adjustmentIds: string[]) => {
+    const earned = timeEntries
+      .filter((entry) => ids.includes(entry.id))
+      .reduce((acc, entry) => acc + (getEarnedAmount(entry) || 0), 0);
+    const deductions = outstandingAdjustments
+      .filter((adjustment) => adjustmentIds.includes(adjustment.id))
+      .reduce((acc, adjustment) => acc + adjustment.amount, 0);
+    return Math.max(earned - deductions, 0);
+  };
+
+  useEffect(() => {
+    if (open) {
+      const adjustmentIds = outstandingAdjustments.map((adjustment) => adjustment.id);
+      form.reset({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        amount: netAmountFor(entryIds, adjustmentIds),
+        method: 'cash',
+        note: '',
+        entryIds,
+        adjustmentIds,
+      });
+    }
+    // Only reset when the dialog opens, not on every change of the entries.
+  }, [open]);
+
+  const unpaidEntries = timeEntries
+    // Running entries have no final amount yet, as in payroll runs.
+    .filter((entry) => entry.employeeId === employeeId && !entry.paid && !isRunning(entry))
+    .sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+
+  const toggleId = (name: 'entryIds' | 'adjustmentIds', id: string, checked: boolean) => {
+    const current = form.getValues(name);
+    form.setValue(name, checked ? [...current, id] : current.filter((other) => other !== id));
+    // Follow the selection unless the amount was typed in by hand.
+    if (!form.getFieldState('amount').isDirty) {
+      form.setValue('amount', netAmountFor(form.getValues('entryIds'), form.getValues('adjustmentIds')));
+    }
+  };
+
+  function onSubmit(values: z.infer<ReturnType<typeof paymentSchema>>) {
+    if (!employeeId) return;
+    const [year, month, day] = values.date.split('-').map(Number);
+    const date = new Date();
+    date.setFullYear(year, month - 1, day);
+    confirmWithPin(() => {
+      addPayment({
+        employeeId,
+        date: date.toISOString(),
+        amount: values.amount,
+        method: values.method,
+        note: values.note || undefined,
+        entryIds: values.entryIds,
+        adjustmentIds: values.adjustmentIds.length > 0 ? values.adjustmentIds : undefined,
+      });
+      onOpenChange(false);
+    });
+  }
+
+  const selectedIds = form.watch('entryIds') || [];
+  const selectedAdjustmentIds = form.watch('adjustmentIds') || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('recordPayment')}</DialogTitle>
+          {employeeId && <DialogDescription>{getEmployeeName(employeeId)}</DialogDescription>}
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {selectable && (
+              <FormItem>
+                <FormLabel>{t('settlesEntries')}</FormLabel>
+                {unpaidEntries.length > 0 ? (
+                  <ScrollArea className="h-40 border rounded-md p-2">
+                    {unpaidEntries.map((entry) => (
+                      <label key={entry.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedIds.includes(entry.id)}
+                          onCheckedChange={(checked) => toggleId('entryIds', entry.id, checked === true)}
+                        />
+                        <span className="flex-1">{formatDate(entry.startTime)} · {calculateDuration(entry)}</span>
+                        <span className="text-muted-foreground">{formatMoney(getEarnedAmount(entry))}</span>
+                      </label>
+                    ))}
+                  </ScrollArea>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{t('noUnpaidEntries')}</p>
+                )}
+              </FormItem>
+            )}
+            {outstandingAdjustments.length > 0 && (
+              <FormItem>
+                <FormLabel>{t('netAdjustments')}</FormLabel>
+                <div className="border rounded-md p-2">
+                  {outstandingAdjustments.map((adjustment) => (
+                    <label key={adjustment.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selectedAdjustmentIds.includes(adjustment.id)}
+                        onCheckedChange={(checked) => toggleId('adjustmentIds', adjustment.id, checked === true)}
+                      />
+                      <span className="flex-1">{formatDate(adjustment.date)} · {t(`adjustmentType_${adjustment.type}`)}</span>
+                      <span className="text-muted-foreground">{formatMoney(-adjustment.amount)}</span>
+                    </label>
+                  ))}
+                </div>
+              </FormItem>
+            )}
+            <div className="flex gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>{t('amount')} ({currencySymbol})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={getAmountStep(currency)} placeholder="e.g. 50000" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>{t('paymentDate')}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('paymentMethod')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="cash">{t('paymentMethod_cash')}</SelectItem>
+                      <SelectItem value="bankTransfer">{t('paymentMethod_bankTransfer')}</SelectItem>
+                      <SelectItem value="other">{t('paymentMethod_other')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('note')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="secondary">{t('cancel')}</Button>
+              </DialogClose>
+              <Button type="submit">{selectedIds.length > 0 ? t('saveAndMarkPaid') : t('save')}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
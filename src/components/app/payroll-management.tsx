@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, subDays } from 'date-fns';
+import { Banknote, Download, Lock, PlusCircle, Printer } from 'lucide-react';
+import type { PayrollRun } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { downloadFile, toCsv } from '@/lib/csv';
+import { buildPayrollLines, getPayrollTotals } from '@/lib/payroll';
+import { generatePayrollPdf } from '@/lib/pdf-generator';
+import { formatDate, formatDateTime, formatMinutes } from '@/lib/utils';
+import { getAmountStep } from '@/lib/money';
+
+const payrollRunSchema = (t: (key: string) => string) => z.object({
+  periodStart: z.string().min(1, t('periodRequired')),
+  periodEnd: z.string().min(1, t('periodRequired')),
+  method: z.enum(['cash', 'bankTransfer', 'other']),
+  lines: z.array(z.object({
+    include: z.boolean(),
+    amount: z.coerce.number().min(0, t('paymentAmountRequired')),
+  })),
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: t('periodEndBeforeStart'),
+  path: ['periodEnd'],
+});
+
+// The default period is the last seven days up to yesterday, so a run on
+// payday covers the week since the previous payday.
+const getDefaultPeriod = () => ({
+  periodStart: format(subDays(new Date(), 7), 'yyyy-MM-dd'),
+  periodEnd: format(subDays(new Date(), 1), 'yyyy-MM-dd'),
+});
+
+export function PayrollManagement() {
+  const { t, language, dir } = useTranslation();
+  const { employees, timeEntries, adjustments, payments, payrollRuns, confirmPayrollRun, getEarnedAmount, formatMoney, currency, confirmWithPin } = useAppContext();
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<PayrollRun | null>(null);
+
+  const form = useForm<z.infer<ReturnType<typeof payrollRunSchema>>>({
+    resolver: zodResolver(payrollRunSchema(t)),
+    defaultValues: { ...getDefaultPeriod(), method: 'cash', lines: [] },
+  });
+
+  const periodStart = form.watch('periodStart');
+  const periodEnd = form.watch('periodEnd');
+  const candidateLines = periodStart && periodEnd && periodStart <= periodEnd
+    ? buildPayrollLines(periodStart, periodEnd, employees, timeEntries, adjustments, payments, getEarnedAmount)
+    : [];
+  const candidateKey = candidateLines.map((line) => `${line.employeeId}:${line.amount}`).join('|');
+
+  // Start over with every employee included at the net amount whenever the
+  // period, and with it the set of unpaid entries, changes.
+  useEffect(() => {
+    form.setValue('lines', candidateLines.map((line) => ({ include: true, amount: line.amount })));
+  }, [candidateKey]);
+
+  const openRunDialog = () => {
+    form.reset({ ...getDefaultPeriod(), method: 'cash', lines: [] });
+    setIsRunDialogOpen(true);
+  };
+
+  function onSubmit(values: z.infer<ReturnType<typeof payrollRunSchema>>) {
+    const lines = candidateLines
+      .map((line, index) => ({ ...line, ...values.lines[index] }))
+      .filter((line) => line.include)
+      .map(({ include, ...line }) => line);
+    if (lines.length === 0) {
+      form.setError('lines', { message: t('payrollRunEmpty') });
+      return;
+    }
+    confirmWithPin(() => {
+      const run = confirmPayrollRun({
+        periodStart: values.periodStart,
+        periodEnd: values.periodEnd,
+        method: values.method,
+        lines,
+      });
+      if (!run) return;
+      setIsRunDialogOpen(false);
+      setSelectedRun(run);
+    });
+  }
+
+  const handlePrint = (run: PayrollRun) => {
+    generatePayrollPdf(run, { t, language, dir, formatMoney, adjustments });
+  };
+
+  const handleExport = (run: PayrollRun) => {
+    const rows = [
+      [t('employee'), t('entries'), t('netDuration'), t('earned'), t('deductions'), t('amountPaid')],
+      ...run.lines.map((line) => [line.employeeName, line.entryIds.length, (line.netMinutes / 60).toFixed(2), line.earned, line.deductions, line.amount]),
+    ];
+    downloadFile(toCsv(rows), `Payroll-${run.periodStart}-${run.periodEnd}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const formLines = form.watch('lines') || [];
+  const includedTotal = candidateLines.reduce(
+    (acc, _line, index) => acc + (formLines[index]?.include ? Number(formLines[index].amount) || 0 : 0),
+    0
+  );
+  const linesError = form.formState.errors.lines?.message;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-6 w-6" />
+            {t('payroll')}
+          </CardTitle>
+          <CardDescription>{t('payrollDescription')}</CardDescription>
+        </div>
+        <Button onClick={openRunDialog}>
+          <PlusCircle className="mr-2 h-4 w-4" /> {t('newPayrollRun')}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {payrollRuns.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('period')}</TableHead>
+                <TableHead>{t('confirmedAt')}</TableHead>
+                <TableHead>{t('employees')}</TableHead>
+                <TableHead className="text-right">{t('amountPaid')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payrollRuns.map((run) => (
+                <TableRow key={run.id} onClick={() => setSelectedRun(run)} className="cursor-pointer">
+                  <TableCell>{formatDate(run.periodStart)} - {formatDate(run.periodEnd)}</TableCell>
+                  <TableCell>{formatDateTime(run.confirmedAt)}</TableCell>
+                  <TableCell>{run.lines.length}</TableCell>
+                  <TableCell className="text-right">{formatMoney(getPayrollTotals(run.lines).amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center text-muted-foreground border rounded-md p-4">
+            {t('noPayrollRuns')}
+          </div>
+        )}
+      </CardContent>
+
+      {/* New Run Dialog */}
+      <Dialog open={isRunDialogOpen} onOpenChange={setIsRunDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t('newPayrollRun')}</DialogTitle>
+            <DialogDescription>{t('newPayrollRunDescription')}</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="periodStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('periodStart')}</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="periodEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('periodEnd')}</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('paymentMethod')}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="cash">{t('paymentMethod_cash')}</SelectItem>
+                          <SelectItem value="bankTransfer">{t('paymentMethod_bankTransfer')}</SelectItem>
+                          <SelectItem value="other">{t('paymentMethod_other')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {candidateLines.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      <TableHead>{t('employee')}</TableHead>
+                      <TableHead>{t('entries')}</TableHead>
+                      <TableHead>{t('netDuration')}</TableHead>
+                      <TableHead>{t('earned')}</TableHead>
+                      <TableHead>{t('deductions')}</TableHead>
+                      <TableHead>{t('amount')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidateLines.map((line, index) => (
+                      <TableRow key={line.employeeId}>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`lines.${index}.include`}
+                            render={({ field }) => (
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} aria-label={line.employeeName} />
+                            )}
+                          />
+                        </TableCell>
+                        <TableCell>{line.employeeName}</TableCell>
+                        <TableCell>{line.entryIds.length}</TableCell>
+                        <TableCell>{formatMinutes(line.netMinutes)}</TableCell>
+                        <TableCell>{formatMoney(line.earned)}</TableCell>
+                        <TableCell>{line.deductions ? formatMoney(-line.deductions) : '-'}</TableCell>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`lines.${index}.amount`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step={getAmountStep(currency)} className="w-32" disabled={!formLines[index]?.include} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={6}>{t('total')}</TableCell>
+                      <TableCell>{formatMoney(includedTotal)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">{t('noUnpaidEntriesInPeriod')}</p>
+              )}
+              {linesError && <p className="text-sm font-medium text-destructive">{linesError}</p>}
+
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="secondary">{t('cancel')}</Button>
+                </DialogClose>
+                <Button type="submit" disabled={candidateLines.length === 0}>{t('confirmPayouts')}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run Detail Dialog */}
+      <Dialog open={selectedRun !== null} onOpenChange={(isOpen) => !isOpen && setSelectedRun(null)}>
+        <DialogContent className="max-w-3xl">
+          {selectedRun && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {t('payrollRun')}: {formatDate(selectedRun.periodStart)} - {formatDate(selectedRun.periodEnd)}
+                  <Badge variant="secondary" className="gap-1"><Lock className="h-3 w-3" /> {t('locked')}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {t('confirmedAt')}: {formatDateTime(selectedRun.confirmedAt)} · {t(`paymentMethod_${selectedRun.method}`)}
+                </DialogDescription>
+              </DialogHeader>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('employee')}</TableHead>
+                    <TableHead>{t('entries')}</TableHead>
+                    <TableHead>{t('netDuration')}</TableHead>
+                    <TableHead>{t('earned')}</TableHead>
+                    <TableHead>{t('deductions')}</TableHead>
+                    <TableHead className="text-right">{t('amountPaid')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedRun.lines.map((line) => (
+                    <TableRow key={line.employeeId}>
+                      <TableCell>{line.employeeName}</TableCell>
+                      <TableCell>{line.entryIds.length}</TableCell>
+                      <TableCell>{formatMinutes(line.netMinutes)}</TableCell>
+                      <TableCell>{formatMoney(line.earned)}</TableCell>
+                      <TableCell>{line.deductions ? formatMoney(-line.deductions) : '-'}</TableCell>
+                      <TableCell className="text-right">{formatMoney(line.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={5}>{t('total')}</TableCell>
+                    <TableCell className="text-right">{formatMoney(getPayrollTotals(selectedRun.lines).amount)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              <DialogFooter className="gap-2">
+                <Button type="button" variant="outline" onClick={() => handleExport(selectedRun)}>
+                  <Download className="mr-2 h-4 w-4" /> {t('exportCsv')}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => handlePrint(selectedRun)}>
+                  <Printer className="mr-2 h-4 w-4" /> {t('printPayrollSheet')}
+                </Button>
+                <Button type="button" variant="secondary" onClick={() => setSelectedRun(null)}>{t('close')}</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
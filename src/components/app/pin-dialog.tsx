@@ -0,0 +1,31 @@
+'use client';
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useTranslation } from '@/hooks/use-translation';
+import type { PinResult } from '@/hooks/use-app-lock';
+import { PinForm } from '@/components/app/pin-form';
+
+interface PinDialogProps {
+  open: boolean;
+  throttleKey: string;
+  description?: string;
+  onSubmit: (pin: string) => PinResult;
+  onCancel: () => void;
+}
+
+// Asks for the PIN again before a sensitive action.
+export function PinDialog({ open, throttleKey, description, onSubmit, onCancel }: PinDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{t('confirmWithPin')}</DialogTitle>
+          <DialogDescription>{description || t('confirmWithPinDescription')}</DialogDescription>
+        </DialogHeader>
+        {open && <PinForm throttleKey={throttleKey} onSubmit={onSubmit} submitLabel={t('confirm')} onCancel={onCancel} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
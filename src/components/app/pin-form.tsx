@@ -0,0 +1,82 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useAppContext } from '@/context/app-context';
+import { useNow } from '@/hooks/use-now';
+import { useTranslation } from '@/hooks/use-translation';
+import type { PinResult } from '@/hooks/use-app-lock';
+import { PIN_PATTERN, getRemainingDelay } from '@/lib/pin';
+
+const pinSchema = (t: (key: string) => string) => z.object({
+  pin: z.string().regex(PIN_PATTERN, t('pinInvalid')),
+});
+
+interface PinFormProps {
+  throttleKey: string; // the PIN being asked for, see getPinKey
+  onSubmit: (pin: string) => PinResult;
+  submitLabel: string;
+  onCancel?: () => void;
+}
+
+// Asks for a PIN. While wrong PINs block further tries, it counts down.
+export function PinForm({ throttleKey, onSubmit, submitLabel, onCancel }: PinFormProps) {
+  const { t } = useTranslation();
+  const { getPinThrottle } = useAppContext();
+  const pinThrottle = getPinThrottle(throttleKey);
+  const now = useNow(1000, pinThrottle.blockedUntil !== null);
+  const remainingSeconds = Math.ceil(getRemainingDelay(pinThrottle, now) / 1000);
+
+  const form = useForm<z.infer<ReturnType<typeof pinSchema>>>({
+    resolver: zodResolver(pinSchema(t)),
+    defaultValues: { pin: '' },
+  });
+
+  function handleSubmit(values: z.infer<ReturnType<typeof pinSchema>>) {
+    const result = onSubmit(values.pin);
+    if (result === 'ok') return;
+    form.reset({ pin: '' });
+    if (result === 'wrong') {
+      form.setError('pin', { message: t('pinWrong') });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="pin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('pin')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={8}
+                  autoFocus
+                  className="text-center text-2xl tracking-[0.5em]"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {remainingSeconds > 0 && (
+          <p className="text-sm font-medium text-destructive">{t('pinBlocked')} {remainingSeconds} s</p>
+        )}
+        <div className="flex justify-end gap-2">
+          {onCancel && <Button type="button" variant="secondary" onClick={onCancel}>{t('cancel')}</Button>}
+          <Button type="submit" disabled={remainingSeconds > 0}>{submitLabel}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Edit, KeyRound, PlusCircle, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { USER_ROLES } from '@/lib/permissions';
+import { PIN_PATTERN, createPinSecret } from '@/lib/pin';
+import type { UserProfile } from '@/types';
+
+const profileSchema = (t: (key: string) => string) => z.object({
+  name: z.string().trim().min(1, t('profileNameRequired')),
+  role: z.enum(['admin', 'foreman', 'worker']),
+  employeeIds: z.array(z.string()),
+  locationIds: z.array(z.string()),
+  // An empty PIN keeps the current one.
+  pin: z.string().regex(PIN_PATTERN, t('pinInvalid')).or(z.literal('')),
+  pinConfirmation: z.string(),
+}).refine((values) => values.role !== 'worker' || values.employeeIds.length === 1, {
+  message: t('workerEmployeeRequired'),
+  path: ['employeeIds'],
+}).refine((values) => values.pin === values.pinConfirmation, {
+  message: t('pinMismatch'),
+  path: ['pinConfirmation'],
+});
+
+type ProfileValues = z.infer<ReturnType<typeof profileSchema>>;
+
+export function ProfileSettings() {
+  const { t } = useTranslation();
+  const { profiles, activeProfile, saveProfile, deleteProfile, employees, locations, getEmployeeName } = useAppContext();
+  // null while no profile is being edited, '' for a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const form = useForm<ProfileValues>({
+    resolver: zodResolver(profileSchema(t)),
+  });
+  const role = form.watch('role');
+  const editingProfile = profiles.find((profile) => profile.id === editingId);
+
+  const openForm = (profile?: UserProfile) => {
+    setEditingId(profile?.id ?? '');
+    form.reset(profile
+      ? { name: profile.name, role: profile.role, employeeIds: profile.employeeIds, locationIds: profile.locationIds, pin: '', pinConfirmation: '' }
+      // The first profile has to be an admin, who can then add the others.
+      : { name: '', role: profiles.length === 0 ? 'admin' : 'foreman', employeeIds: [], locationIds: [], pin: '', pinConfirmation: '' });
+  };
+
+  // Assignments only matter for foremen and workers.
+  function onSubmit(values: ProfileValues) {
+    saveProfile({
+      id: editingId || undefined,
+      name: values.name,
+      role: values.role,
+      employeeIds: values.role === 'admin' ? [] : values.employeeIds,
+      locationIds: values.role === 'foreman' ? values.locationIds : [],
+      pin: values.pin ? createPinSecret(values.pin) : editingProfile?.pin,
+    });
+    setEditingId(null);
+  }
+
+  const toggleId = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter((other) => other !== id);
+
+  const describeAssignment = (profile: UserProfile) => {
+    switch (profile.role) {
+      case 'foreman':
+        return `${t('employees')}: ${profile.employeeIds.length} · ${t('locations')}: ${profile.locationIds.length}`;
+      case 'worker':
+        return profile.employeeIds.map(getEmployeeName).join(', ');
+      default:
+        return t('profileAssignment_all');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t('profilesDescription')}</p>
+      {profiles.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('name')}</TableHead>
+              <TableHead>{t('role')}</TableHead>
+              <TableHead>{t('profileAssignment')}</TableHead>
+              <TableHead className="text-right">{t('action')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profiles.map((profile) => (
+              <TableRow key={profile.id}>
+                <TableCell className="font-medium">
+                  {profile.name}
+                  {profile.id === activeProfile?.id && <Badge variant="secondary" className="ml-2">{t('activeProfile')}</Badge>}
+                </TableCell>
+                <TableCell>
+                  {t(`role_${profile.role}`)}
+                  {profile.pin && <KeyRound className="inline ml-2 h-3 w-3 text-muted-foreground" aria-label={t('pin')} />}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{describeAssignment(profile)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => openForm(profile)} aria-label={t('editProfile')}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button type="button" variant="ghost" size="icon" aria-label={t('deleteProfile')}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {profiles.length === 1 ? t('deleteLastProfileConfirmation') : t('deleteProfileConfirmation')}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteProfile(profile.id)}>{t('delete')}</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {editingId === null ? (
+        <Button type="button" variant="outline" onClick={() => openForm()}>
+          <PlusCircle className="mr-2 h-4 w-4" /> {t('addProfile')}
+        </Button>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border rounded-md p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('name')}</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('role')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_ROLES.map((value) => <SelectItem key={value} value={value}>{t(`role_${value}`)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">{t(`roleDescription_${role}`)}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="pin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{editingProfile?.pin ? t('newPin') : t('pin')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                    </FormControl>
+                    {editingProfile?.pin && <FormDescription>{t('keepPinDescription')}</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pinConfirmation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('confirmPin')}</FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {role === 'worker' && (
+              <FormField
+                control={form.control}
+                name="employeeIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('employee')}</FormLabel>
+                    <Select onValueChange={(value) => field.onChange([value])} value={field.value[0] ?? ''}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={t('selectEmployee')} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {employees.map((e) => <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {role === 'foreman' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="employeeIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('assignedEmployees')}</FormLabel>
+                      <ScrollArea className="h-40 border rounded-md p-2">
+                        {employees.map((employee) => (
+                          <label key={employee.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={field.value.includes(employee.id)}
+                              onCheckedChange={(checked) => field.onChange(toggleId(field.value, employee.id, checked === true))}
+                            />
+                            <span>{employee.name}</span>
+                          </label>
+                        ))}
+                      </ScrollArea>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="locationIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('assignedLocations')}</FormLabel>
+                      <ScrollArea className="h-40 border rounded-md p-2">
+                        {locations.map((location) => (
+                          <label key={location.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={field.value.includes(location.id)}
+                              onCheckedChange={(checked) => field.onChange(toggleId(field.value, location.id, checked === true))}
+                            />
+                            <span>{location.name}</span>
+                          </label>
+                        ))}
+                      </ScrollArea>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setEditingId(null)}>{t('cancel')}</Button>
+              <Button type="submit">{t('save')}</Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, parseISO } from 'date-fns';
+import { Edit, PlusCircle, Trash2 } from 'lucide-react';
+import type { Employee, RateChange } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDate } from '@/lib/utils';
+import { getAmountStep } from '@/lib/money';
+
+// Pseudo ids for the form: the employee's base rate, which has no effective
+// date, and a rate change that has not been saved yet.
+const BASE_RATE_ID = 'base';
+const NEW_RATE_ID = 'new';
+const ALL_LOCATIONS = 'all';
+
+const rateChangeSchema = (t: (key: string) => string) => z.object({
+  effectiveFrom: z.string(),
+  payModel: z.enum(['hourly', 'daily', 'fixed']),
+  rate: z.coerce.number().min(0, t('rateInvalid')),
+  locationId: z.string(),
+});
+
+interface RateHistoryDialogProps {
+  employee: Employee | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RateHistoryDialog({ employee, open, onOpenChange }: RateHistoryDialogProps) {
+  const { t } = useTranslation();
+  const { locations, updateEmployee, getLocationName, formatMoney, currencySymbol, currency } = useAppContext();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const form = useForm<z.infer<ReturnType<typeof rateChangeSchema>>>({
+    resolver: zodResolver(rateChangeSchema(t)),
+  });
+
+  if (!employee) return null;
+
+  const history = [...(employee.rateHistory || [])].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+  const isBaseRate = editingId === BASE_RATE_ID;
+
+  const openForm = (change?: RateChange) => {
+    setEditingId(change?.id || NEW_RATE_ID);
+    form.reset({
+      effectiveFrom: change?.effectiveFrom || format(new Date(), 'yyyy-MM-dd'),
+      payModel: change?.payModel || employee.payModel || 'daily',
+      rate: change?.rate ?? employee.rate ?? 0,
+      locationId: change?.locationId || ALL_LOCATIONS,
+    });
+  };
+
+  const openFormForBaseRate = () => {
+    setEditingId(BASE_RATE_ID);
+    form.reset({
+      effectiveFrom: '',
+      payModel: employee.payModel || 'daily',
+      rate: employee.rate ?? 0,
+      locationId: ALL_LOCATIONS,
+    });
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    form.reset({ effectiveFrom: '', payModel: 'daily', rate: 0, locationId: ALL_LOCATIONS });
+  };
+
+  const onSubmit = (values: z.infer<ReturnType<typeof rateChangeSchema>>) => {
+    if (isBaseRate) {
+      updateEmployee({ ...employee, payModel: values.payModel, rate: values.rate });
+      closeForm();
+      return;
+    }
+    if (!values.effectiveFrom) {
+      form.setError('effectiveFrom', { message: t('effectiveFromRequired') });
+      return;
+    }
+    const change: RateChange = {
+      id: editingId === NEW_RATE_ID || !editingId ? crypto.randomUUID() : editingId,
+      effectiveFrom: values.effectiveFrom,
+      payModel: values.payModel,
+      rate: values.rate,
+      locationId: values.locationId === ALL_LOCATIONS ? undefined : values.locationId,
+    };
+    const otherChanges = (employee.rateHistory || []).filter((c) => c.id !== change.id);
+    updateEmployee({ ...employee, rateHistory: [...otherChanges, change] });
+    closeForm();
+  };
+
+  const deleteChange = (id: string) => {
+    updateEmployee({ ...employee, rateHistory: (employee.rateHistory || []).filter((c) => c.id !== id) });
+    if (editingId === id) closeForm();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!isOpen) closeForm();
+      onOpenChange(isOpen);
+    }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('rateHistory')}: {employee.name}</DialogTitle>
+          <DialogDescription>{t('rateHistoryDescription')}</DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('effectiveFrom')}</TableHead>
+              <TableHead>{t('payModel')}</TableHead>
+              <TableHead>{t('rate')}</TableHead>
+              <TableHead>{t('location')}</TableHead>
+              <TableHead className="text-right">{t('action')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.map((change) => (
+              <TableRow key={change.id} className={editingId === change.id ? 'bg-secondary' : ''}>
+                <TableCell>{formatDate(parseISO(change.effectiveFrom).toISOString())}</TableCell>
+                <TableCell>{t(`payModel_${change.payModel}`)}</TableCell>
+                <TableCell>{formatMoney(change.rate)}</TableCell>
+                <TableCell>{change.locationId ? getLocationName(change.locationId) : t('allLocations')}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(change)} aria-label={t('edit')}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => deleteChange(change.id)} aria-label={t('delete')}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow className={isBaseRate ? 'bg-secondary' : ''}>
+              <TableCell className="text-muted-foreground">{t('baseRate')}</TableCell>
+              <TableCell>{employee.payModel ? t(`payModel_${employee.payModel}`) : t('noPayModel')}</TableCell>
+              <TableCell>{formatMoney(employee.rate)}</TableCell>
+              <TableCell>{t('allLocations')}</TableCell>
+              <TableCell className="text-right">
+                <Button variant="ghost" size="icon" onClick={openFormForBaseRate} aria-label={t('edit')}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {editingId !== null ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border rounded-md p-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {!isBaseRate && (
+                  <FormField
+                    control={form.control}
+                    name="effectiveFrom"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('effectiveFrom')}</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {!isBaseRate && (
+                  <FormField
+                    control={form.control}
+                    name="locationId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('location')}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ALL_LOCATIONS}>{t('allLocations')}</SelectItem>
+                            {locations.map(l => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="payModel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('payModel')}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="hourly">{t('payModel_hourly')}</SelectItem>
+                          <SelectItem value="daily">{t('payModel_daily')}</SelectItem>
+                          <SelectItem value="fixed">{t('payModel_fixed')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('rate')} ({currencySymbol})</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={getAmountStep(currency)} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={closeForm}>{t('cancel')}</Button>
+                <Button type="submit">{t('save')}</Button>
+              </div>
+            </form>
+          </Form>
+        ) : null}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => openForm()}>
+            <PlusCircle className="mr-2 h-4 w-4" /> {t('addRateChange')}
+          </Button>
+          <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>{t('close')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
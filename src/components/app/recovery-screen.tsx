@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2, LifeBuoy, RotateCw, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { downloadFile } from '@/lib/csv';
+import type { CorruptDataError } from '@/lib/storage';
+
+interface RecoveryScreenProps {
+  error: CorruptDataError;
+}
+
+// Shown instead of the app when some stored data is damaged. The damaged values
+// are already quarantined; the stored data only changes when the user chooses
+// to keep the valid records.
+export function RecoveryScreen({ error }: RecoveryScreenProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isSalvaging, setIsSalvaging] = useState(false);
+
+  const handleDownload = () => {
+    downloadFile(
+      JSON.stringify(error.raw, null, 2),
+      `timemaster-damaged-data-${format(new Date(), 'yyyy-MM-dd')}.json`,
+      'application/json'
+    );
+  };
+
+  const handleSalvage = async () => {
+    setIsSalvaging(true);
+    try {
+      await error.salvage();
+      window.location.reload();
+    } catch (salvageError) {
+      console.error('Error salvaging data', salvageError);
+      setIsSalvaging(false);
+      toast({
+        title: t('salvageErrorTitle'),
+        description: t('salvageErrorDescription'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="max-w-lg w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <ShieldAlert className="h-6 w-6" />
+            {t('recoveryTitle')}
+          </CardTitle>
+          <CardDescription>{t('recoveryDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">{t('recoveryValid')}</TableHead>
+                <TableHead className="text-right">{t('recoveryInvalid')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {error.problems.map((problem) => (
+                <TableRow key={problem.collection}>
+                  <TableCell>
+                    {t(`backupRecords_${problem.collection}`)}
+                    {problem.unreadable && <Badge variant="destructive" className="ms-2">{t('recoveryUnreadable')}</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{problem.valid}</TableCell>
+                  <TableCell className="text-right text-destructive">{problem.invalid}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+        <CardFooter className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" /> {t('downloadDamagedData')}
+          </Button>
+          <Button variant="outline" onClick={() => window.location.reload()}>
+            <RotateCw className="mr-2 h-4 w-4" /> {t('tryAgain')}
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button disabled={isSalvaging}>
+                {isSalvaging ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LifeBuoy className="mr-2 h-4 w-4" />}
+                {t('salvageData')}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                <AlertDialogDescription>{t('salvageConfirmation')}</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={handleSalvage}>{t('salvageData')}</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
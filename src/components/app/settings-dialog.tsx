@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Cloud, Coins, DatabaseBackup, ShieldCheck, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatMoney, isValidCurrencyCode } from '@/lib/money';
+import { BackupSettings } from '@/components/app/backup-settings';
+import { IntegritySettings } from '@/components/app/integrity-settings';
+import { SyncSettings } from '@/components/app/sync-settings';
+import { FirestoreSettings } from '@/components/app/firestore-settings';
+import { ProfileSettings } from '@/components/app/profile-settings';
+import { LockSettings } from '@/components/app/lock-settings';
+import { KioskSettings } from '@/components/app/kiosk-settings';
+
+const currencySchema = (t: (key: string) => string) => z.object({
+  code: z.string().transform((code) => code.trim().toUpperCase()).refine(isValidCurrencyCode, t('currencyCodeInvalid')),
+  decimals: z.coerce.number().int().min(0, t('decimalsInvalid')).max(4, t('decimalsInvalid')),
+  symbolPosition: z.enum(['before', 'after']),
+});
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  const { t, language } = useTranslation();
+  const { currency, setCurrency } = useAppContext();
+
+  const form = useForm<z.input<ReturnType<typeof currencySchema>>, unknown, z.output<ReturnType<typeof currencySchema>>>({
+    resolver: zodResolver(currencySchema(t)),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(currency);
+    }
+  }, [open]);
+
+  function onSubmit(values: z.output<ReturnType<typeof currencySchema>>) {
+    setCurrency(values);
+    onOpenChange(false);
+  }
+
+  const watched = form.watch();
+  const preview = isValidCurrencyCode(watched.code?.trim().toUpperCase() || '')
+    ? formatMoney(1234.5, {
+        code: watched.code.trim().toUpperCase(),
+        decimals: Math.min(Math.max(Number(watched.decimals) || 0, 0), 4),
+        symbolPosition: watched.symbolPosition,
+      }, language)
+    : '-';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('settings')}</DialogTitle>
+          <DialogDescription>{t('settingsDescription')}</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="currency">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="currency" className="gap-2">
+              <Coins className="h-4 w-4" /> {t('currencySettings')}
+            </TabsTrigger>
+            <TabsTrigger value="backup" className="gap-2">
+              <DatabaseBackup className="h-4 w-4" /> {t('backup')}
+            </TabsTrigger>
+            <TabsTrigger value="sync" className="gap-2">
+              <Cloud className="h-4 w-4" /> {t('sync')}
+            </TabsTrigger>
+            <TabsTrigger value="integrity" className="gap-2">
+              <ShieldCheck className="h-4 w-4" /> {t('integrity')}
+            </TabsTrigger>
+            <TabsTrigger value="profiles" className="gap-2">
+              <Users className="h-4 w-4" /> {t('profiles')}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="currency">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="code"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('currencyCode')}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="IQD" maxLength={3} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="decimals"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('decimalPlaces')}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} max={4} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="symbolPosition"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('symbolPosition')}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="before">{t('symbolPosition_before')}</SelectItem>
+                            <SelectItem value="after">{t('symbolPosition_after')}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">{t('preview')}: <span className="font-medium text-foreground">{preview}</span></p>
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button type="button" variant="secondary">{t('cancel')}</Button>
+                  </DialogClose>
+                  <Button type="submit">{t('save')}</Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </TabsContent>
+          <TabsContent value="backup">
+            <BackupSettings />
+          </TabsContent>
+          <TabsContent value="sync">
+            <SyncSettings />
+            <Separator className="my-6" />
+            <FirestoreSettings />
+          </TabsContent>
+          <TabsContent value="integrity">
+            <IntegritySettings />
+          </TabsContent>
+          <TabsContent value="profiles">
+            <ProfileSettings />
+            <Separator className="my-6" />
+            <LockSettings />
+            <Separator className="my-6" />
+            <KioskSettings />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
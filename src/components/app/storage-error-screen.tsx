@@ -0,0 +1,60 @@
+'use client';
+
+import { format } from 'date-fns';
+import { AlertTriangle, Download, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTranslation } from '@/hooks/use-translation';
+import { downloadFile } from '@/lib/csv';
+import type { MigrationError } from '@/lib/storage';
+
+interface StorageErrorScreenProps {
+  error: MigrationError;
+}
+
+// Shown instead of the app when the stored data cannot be opened. The data is
+// left as it is, so that an update of the app or support can still recover it.
+export function StorageErrorScreen({ error }: StorageErrorScreenProps) {
+  const { t } = useTranslation();
+  const cause = error.cause instanceof Error ? error.cause.message : error.cause ? String(error.cause) : null;
+
+  const handleDownload = () => {
+    if (!error.backup) return;
+    downloadFile(
+      JSON.stringify(error.backup, null, 2),
+      `timemaster-backup-${format(new Date(), 'yyyy-MM-dd')}.json`,
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="max-w-lg w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-6 w-6" />
+            {t('storageErrorTitle')}
+          </CardTitle>
+          <CardDescription>{t(`storageError_${error.reason}`)}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p>{t('storageErrorDataKept')} {error.backup && t('storageErrorExportHint')}</p>
+          <p className="text-muted-foreground">
+            {t('schemaVersion')}: {error.version}
+            {cause && <> · {cause}</>}
+          </p>
+        </CardContent>
+        <CardFooter className="flex flex-wrap justify-end gap-2">
+          {error.backup && (
+            <Button variant="outline" onClick={handleDownload}>
+              <Download className="mr-2 h-4 w-4" /> {t('exportBackup')}
+            </Button>
+          )}
+          <Button onClick={() => window.location.reload()}>
+            <RotateCw className="mr-2 h-4 w-4" /> {t('tryAgain')}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/context/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDateTime } from '@/lib/utils';
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const syncSchema = (t: (key: string) => string) => z.object({
+  enabled: z.boolean(),
+  endpoint: z.string().trim(),
+  token: z.string().trim(),
+}).refine((values) => !values.enabled || isHttpUrl(values.endpoint), { message: t('syncEndpointInvalid'), path: ['endpoint'] });
+
+type SyncFormValues = z.infer<ReturnType<typeof syncSchema>>;
+
+export function SyncSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { syncSettings, configureSync, syncStatus, syncNow } = useAppContext();
+  // Settings that turn sync off while changes still wait in the outbox, which
+  // turning it off drops.
+  const [pendingDisable, setPendingDisable] = useState<SyncFormValues | null>(null);
+
+  const form = useForm<SyncFormValues>({
+    resolver: zodResolver(syncSchema(t)),
+    defaultValues: syncSettings,
+  });
+
+  useEffect(() => {
+    form.reset(syncSettings);
+  }, [syncSettings]);
+
+  function onSubmit(values: SyncFormValues) {
+    if (syncSettings.enabled && !values.enabled && syncStatus.pending > 0) {
+      setPendingDisable(values);
+      return;
+    }
+    configureSync(values);
+  }
+
+  const syncAndDisable = async (values: SyncFormValues) => {
+    if (await syncNow()) {
+      configureSync(values);
+      return;
+    }
+    toast({
+      title: t('syncDisableFailedTitle'),
+      description: t('syncDisableFailedDescription'),
+      variant: 'destructive',
+    });
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="enabled"
+            render={({ field }) => (
+              <FormItem className="flex items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1">
+                  <FormLabel>{t('syncEnabled')}</FormLabel>
+                  <FormDescription>{t('syncDescription')}</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endpoint"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('syncEndpoint')}</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="http://localhost:8787" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="token"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('syncToken')}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="off" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-end">
+            <Button type="submit">{t('save')}</Button>
+          </div>
+        </form>
+      </Form>
+
+      {syncSettings.enabled && (
+        <div className="flex flex-wrap items-center justify-between gap-4 border rounded-md p-3">
+          <div className="text-sm space-y-1">
+            <p className={syncStatus.state === 'error' ? 'text-destructive font-medium' : 'font-medium'}>
+              {t(`syncState_${syncStatus.state}`)}
+              {syncStatus.error && `: ${t(`syncError_${syncStatus.error}`)}`}
+            </p>
+            <p className="text-muted-foreground">{t('syncPending')}: {syncStatus.pending}</p>
+            <p className="text-muted-foreground">
+              {t('syncLastSynced')}: {syncStatus.lastSyncedAt ? formatDateTime(syncStatus.lastSyncedAt) : t('never')}
+            </p>
+          </div>
+          <Button variant="outline" onClick={syncNow} disabled={syncStatus.state === 'syncing' || syncStatus.state === 'offline'}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} /> {t('syncNow')}
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingDisable} onOpenChange={(open) => !open && setPendingDisable(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('syncDisableTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('syncDisableDescription')} {t('syncPending')}: {syncStatus.pending}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingDisable && configureSync(pendingDisable)}>
+              {t('syncDisableDiscard')}
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => pendingDisable && syncAndDisable(pendingDisable)}
+              disabled={syncStatus.state === 'offline'}
+            >
+              {t('syncDisablePush')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, startOfMonth } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { downloadFile, encodeCsv, toCsv } from '@/lib/csv';
+import { buildTimeEntryRows, filterTimeEntries, getTimeEntryExportFileName, type TimeEntryFilter } from '@/lib/time-entry-export';
+
+const ALL = 'all';
+
+const exportSchema = (t: (key: string) => string) => z.object({
+  from: z.string(),
+  to: z.string(),
+  employeeId: z.string(),
+  locationId: z.string(),
+  status: z.enum(['all', 'paid', 'unpaid']),
+  delimiter: z.enum([',', ';', '\t']),
+  decimalSeparator: z.enum(['.', ',']),
+  encoding: z.enum(['utf-8-bom', 'utf-8']),
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: t('periodEndBeforeStart'),
+  path: ['to'],
+});
+
+type ExportValues = z.infer<ReturnType<typeof exportSchema>>;
+
+const toFilter = (values: ExportValues): TimeEntryFilter => ({
+  from: values.from || undefined,
+  to: values.to || undefined,
+  employeeId: values.employeeId === ALL ? undefined : values.employeeId,
+  locationId: values.locationId === ALL ? undefined : values.locationId,
+  status: values.status,
+});
+
+interface TimeEntryExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Presets the employee filter, e.g. when opened from an employee's history.
+  employeeId?: string;
+}
+
+export function TimeEntryExportDialog({ open, onOpenChange, employeeId }: TimeEntryExportDialogProps) {
+  const { t, language } = useTranslation();
+  const { timeEntries, employees, locations, getEmployeeName, getLocationName, getEarnedAmount, currency } = useAppContext();
+
+  const form = useForm<ExportValues>({
+    resolver: zodResolver(exportSchema(t)),
+  });
+
+  useEffect(() => {
+    if (open) {
+      // German Excel expects semicolons and decimal commas.
+      const isGerman = language === 'de';
+      form.reset({
+        from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+        to: format(new Date(), 'yyyy-MM-dd'),
+        employeeId: employeeId || ALL,
+        locationId: ALL,
+        status: 'all',
+        delimiter: isGerman ? ';' : ',',
+        decimalSeparator: isGerman ? ',' : '.',
+        encoding: 'utf-8-bom',
+      });
+    }
+  }, [open]);
+
+  const watched = form.watch();
+  const matchingCount = watched.status ? filterTimeEntries(timeEntries, toFilter(watched)).length : 0;
+
+  function onSubmit(values: ExportValues) {
+    const filter = toFilter(values);
+    const rows = buildTimeEntryRows(filterTimeEntries(timeEntries, filter), {
+      t,
+      getEmployeeName,
+      getLocationName,
+      getEarnedAmount,
+      decimals: currency.decimals,
+      decimalSeparator: values.decimalSeparator,
+    });
+    downloadFile(
+      encodeCsv(toCsv(rows, values.delimiter), values.encoding),
+      getTimeEntryExportFileName(filter, filter.employeeId && getEmployeeName(filter.employeeId)),
+      'text/csv;charset=utf-8'
+    );
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('exportCsv')}</DialogTitle>
+          <DialogDescription>{t('exportCsvDescription')}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('periodStart')}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('periodEnd')}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="employeeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('employee')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>{t('allEmployees')}</SelectItem>
+                        {employees.map(e => <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('location')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>{t('allLocations')}</SelectItem>
+                        {locations.map(l => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>{t('status')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="all">{t('paidStatus_all')}</SelectItem>
+                        <SelectItem value="paid">{t('paidStatus_paid')}</SelectItem>
+                        <SelectItem value="unpaid">{t('paidStatus_unpaid')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="delimiter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('csvDelimiter')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=",">{t('csvDelimiter_comma')}</SelectItem>
+                        <SelectItem value=";">{t('csvDelimiter_semicolon')}</SelectItem>
+                        <SelectItem value={'\t'}>{t('csvDelimiter_tab')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="decimalSeparator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('decimalSeparator')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=".">{t('decimalSeparator_point')}</SelectItem>
+                        <SelectItem value=",">{t('decimalSeparator_comma')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="encoding"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('csvEncoding')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="utf-8-bom">{t('csvEncoding_utf8Bom')}</SelectItem>
+                        <SelectItem value="utf-8">{t('csvEncoding_utf8')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">{t('matchingEntries')}: <span className="font-medium text-foreground">{matchingCount}</span></p>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="secondary">{t('cancel')}</Button>
+              </DialogClose>
+              <Button type="submit" disabled={matchingCount === 0}>
+                <Download className="mr-2 h-4 w-4" /> {t('exportCsv')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { z } from 'zod';
+import { AlertTriangle, CheckCircle2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { detectDelimiter, parseCsv, type CsvDelimiter } from '@/lib/csv';
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  findByName,
+  guessColumnMapping,
+  isSameName,
+  normalizeImportTime,
+  parseImportDate,
+  parseImportNumber,
+  type ColumnMapping,
+  type ImportField,
+  type TimeEntryImport,
+} from '@/lib/time-entry-import';
+import { buildEntryTimes } from '@/lib/utils';
+import { areBreaksWithinEntry, breakFieldsSchema, fromBreakFormValues } from '@/components/app/break-fields';
+
+const NOT_MAPPED = 'none';
+
+// The same rules as the entry form, applied to one row of the file.
+const importRowSchema = (t: (key: string) => string) => z.object({
+  employee: z.string().trim().min(1, t('employeeIsRequired')),
+  location: z.string().trim().min(1, t('locationIsRequired')),
+  date: z.string().refine((value) => parseImportDate(value) !== null, t('importInvalidDate')),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')).or(z.literal('')),
+  amount: z.number({ invalid_type_error: t('importInvalidNumber') }).min(0, t('importInvalidNumber')).optional(),
+  ...breakFieldsSchema(t),
+}).refine(data => {
+  return data.startTime !== data.endTime;
+}, {
+  message: t('endTimeEqualsStartTime'),
+  path: ['endTime'],
+}).refine(areBreaksWithinEntry, {
+  message: t('breaksOutsideEntry'),
+  path: ['breaks'],
+}).refine((data) => !data.amount || data.endTime !== '', {
+  message: t('importRunningEntryPaid'),
+  path: ['amount'],
+});
+
+type RejectedRow = { line: number; values: string[]; reason: string };
+
+type Step = 'upload' | 'mapping' | 'report';
+
+interface TimeEntryImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TimeEntryImportDialog({ open, onOpenChange }: TimeEntryImportDialogProps) {
+  const { t } = useTranslation();
+  const { timeEntries, employees, locations, importTimeEntries, confirmWithPin, getUndoToastAction } = useAppContext();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const getFieldLabel = (field: ImportField) => t(field);
+
+  const rows = text ? parseCsv(text, delimiter) : [];
+  const headers = rows[0] || [];
+  const dataRows = rows.slice(1);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setStep('upload');
+      setText('');
+      setMapping(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const loadText = (content: string, nextDelimiter: CsvDelimiter) => {
+    const parsed = parseCsv(content, nextDelimiter);
+    setText(content);
+    setDelimiter(nextDelimiter);
+    setMapping(guessColumnMapping(parsed[0] || [], getFieldLabel));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    if (parseCsv(content, detectDelimiter(content)).length < 2) {
+      toast({
+        title: t('importErrorTitle'),
+        description: t('importEmptyFile'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    setFileName(file.name);
+    loadText(content, detectDelimiter(content));
+    setStep('mapping');
+  };
+
+  const isMappingComplete = !!mapping && REQUIRED_IMPORT_FIELDS.every((field) => mapping[field] !== undefined);
+
+  // Checks every row and sorts it into the entries to import or the rejected rows.
+  const validate = () => {
+    const accepted: TimeEntryImport[] = [];
+    const rejected: RejectedRow[] = [];
+    if (!mapping) return { accepted, rejected };
+
+    const schema = importRowSchema(t);
+    const cell = (row: string[], field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (row[index] || '').trim();
+    };
+
+    dataRows.forEach((row, index) => {
+      // Line numbers as shown by a spreadsheet, counting the header.
+      const line = index + 2;
+      const result = schema.safeParse({
+        employee: cell(row, 'employee'),
+        location: cell(row, 'location'),
+        date: cell(row, 'date'),
+        startTime: normalizeImportTime(cell(row, 'startTime')),
+        endTime: normalizeImportTime(cell(row, 'endTime')),
+        amount: parseImportNumber(cell(row, 'amountPaid')),
+        breakMinutes: parseImportNumber(cell(row, 'breakMinutes')),
+        breaks: [],
+      });
+      if (!result.success) {
+        rejected.push({ line, values: row, reason: result.error.issues[0].message });
+        return;
+      }
+
+      const values = result.data;
+      const times = buildEntryTimes(parseImportDate(values.date)!, values.startTime, values.endTime || undefined);
+      const employee = findByName(employees, values.employee);
+      const isDuplicate = (employee && timeEntries.some((entry) => entry.employeeId === employee.id && entry.startTime === times.startTime))
+        || accepted.some((other) => isSameName(other.employeeName, values.employee) && other.entry.startTime === times.startTime);
+      if (isDuplicate) {
+        rejected.push({ line, values: row, reason: t('importDuplicateEntry') });
+        return;
+      }
+
+      accepted.push({
+        employeeName: values.employee,
+        locationName: values.location,
+        entry: {
+          ...times,
+          ...fromBreakFormValues(times.startTime, values),
+        },
+        amountPaid: values.amount || undefined,
+      });
+    });
+    return { accepted, rejected };
+  };
+
+  const { accepted, rejected } = step === 'report' ? validate() : { accepted: [], rejected: [] };
+  const uniqueNames = (names: string[]) => names.filter((name, index) => names.findIndex((other) => isSameName(other, name)) === index);
+  const newEmployeeNames = uniqueNames(accepted.map((row) => row.employeeName).filter((name) => !findByName(employees, name)));
+  const newLocationNames = uniqueNames(accepted.map((row) => row.locationName).filter((name) => !findByName(locations, name)));
+
+  // Paid amounts become payments, which take the PIN.
+  const handleImport = () => {
+    const runImport = () => {
+      const result = importTimeEntries(accepted);
+      if (!result) return;
+      toast({
+        title: t('importDoneTitle'),
+        description: `${t('backupRecords_timeEntries')}: ${result.entries} · ${t('payments')}: ${result.payments} · ${t('importNewEmployees')}: ${result.employees} · ${t('importNewLocations')}: ${result.locations}`,
+        action: getUndoToastAction(),
+      });
+      handleOpenChange(false);
+    };
+    if (accepted.some((row) => row.amountPaid)) {
+      confirmWithPin(runImport);
+    } else {
+      runImport();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('importCsv')}</DialogTitle>
+          <DialogDescription>{t(`importStep_${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t('importCsvDescription')}</p>
+            <Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" /> {t('chooseCsvFile')}
+            </Button>
+            <input ref={fileInputRef} type="file" accept="text/csv,.csv,.txt" className="hidden" onChange={handleFileChange} />
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm">
+                {fileName} · {t('rows')}: {dataRows.length}
+              </p>
+              <div className="flex items-center gap-2">
+                <Label>{t('csvDelimiter')}</Label>
+                <Select value={delimiter} onValueChange={(value) => loadText(text, value as CsvDelimiter)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">{t('csvDelimiter_comma')}</SelectItem>
+                    <SelectItem value=";">{t('csvDelimiter_semicolon')}</SelectItem>
+                    <SelectItem value={'\t'}>{t('csvDelimiter_tab')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {getFieldLabel(field)}
+                    {!REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-muted-foreground"> ({t('optional')})</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>{t('notMapped')}</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `${t('column')} ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">{t('importFormatHint')}</p>
+            <DialogFooter>
+              <Button type="button" variant="secondary" onClick={() => setStep('upload')}>{t('back')}</Button>
+              <Button type="button" disabled={!isMappingComplete} onClick={() => setStep('report')}>{t('checkRows')}</Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle2 className="h-4 w-4" /> {t('importAccepted')}: {accepted.length}
+              </Badge>
+              <Badge variant={rejected.length > 0 ? 'destructive' : 'secondary'} className="gap-1">
+                <AlertTriangle className="h-4 w-4" /> {t('importRejected')}: {rejected.length}
+              </Badge>
+            </div>
+            {newEmployeeNames.length > 0 && (
+              <p className="text-sm">{t('importNewEmployees')}: <span className="font-medium">{newEmployeeNames.join(', ')}</span></p>
+            )}
+            {newLocationNames.length > 0 && (
+              <p className="text-sm">{t('importNewLocations')}: <span className="font-medium">{newLocationNames.join(', ')}</span></p>
+            )}
+            {rejected.length > 0 && (
+              <ScrollArea className="h-64 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('line')}</TableHead>
+                      <TableHead>{t('row')}</TableHead>
+                      <TableHead>{t('reason')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rejected.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.values.join(' · ')}</TableCell>
+                        <TableCell className="text-destructive">{row.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="secondary" onClick={() => setStep('mapping')}>{t('back')}</Button>
+              <Button type="button" disabled={accepted.length === 0} onClick={handleImport}>
+                {t('importEntries')} ({accepted.length})
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
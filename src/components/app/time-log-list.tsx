@@ -1,17 +1,29 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { format, parse, parseISO, startOfDay, isSameDay } from 'date-fns';
-import { PlusCircle, Edit, Trash2, Loader2, CalendarDays, Clock, MapPin, Calendar as CalendarIcon, ChevronDown, User, Info, DollarSign } from 'lucide-react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { PlusCircle, Edit, Trash2, Loader2, CalendarDays, Clock, MapPin, Calendar as CalendarIcon, ChevronDown, User, Info, DollarSign, Play, Square, Coffee, FileSpreadsheet, FileUp } from 'lucide-react';
 import type { TimeEntry } from '@/types';
 import {
+  buildEntryTimes,
   calculateDuration,
+  calculateDurationInHours,
+  calculateGrossDuration,
   formatDate,
+  formatElapsed,
+  formatEndTime,
+  formatMinutes,
   formatTime,
+  getBreakMinutes,
+  isCarriedOverToDay,
+  isEntryOnDay,
+  isOvernight,
+  isPaused,
+  isRunning,
   cn,
 } from '@/lib/utils';
 import {
@@ -64,27 +76,39 @@ import {
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { useTranslation } from '@/hooks/use-translation';
+import { useNow } from '@/hooks/use-now';
 import { useAppContext } from '@/context/app-context';
+import { PaymentDialog } from '@/components/app/payment-dialog';
+import { RecordAuditTrail } from '@/components/app/audit-trail';
+import { TimeEntryExportDialog } from '@/components/app/time-entry-export-dialog';
+import { TimeEntryImportDialog } from '@/components/app/time-entry-import-dialog';
+import { PaidStatus } from '@/components/app/paid-status';
+import { BreakFields, areBreaksWithinEntry, breakFieldsSchema, fromBreakFormValues, toBreakFormValues } from '@/components/app/break-fields';
 
 
 const timeEntrySchema = (t: (key: string) => string) => z.object({
   employeeId: z.string().min(1, t('employeeIsRequired')),
   locationId: z.string().min(1, t('locationIsRequired')),
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')),
-  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')),
-  amount: z.coerce.number().optional(),
+  // An empty end time keeps the entry running.
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, t('invalidTimeFormat')).or(z.literal('')),
+  ...breakFieldsSchema(t),
 }).refine(data => {
-  const start = parse(data.startTime, 'HH:mm', new Date());
-  const end = parse(data.endTime, 'HH:mm', new Date());
-  return start < end;
+  // An end time before the start time is a night shift that ends on the next day.
+  return data.startTime !== data.endTime;
 }, {
-  message: t('endTimeAfterStartTime'),
+  message: t('endTimeEqualsStartTime'),
   path: ['endTime'],
+}).refine(areBreaksWithinEntry, {
+  message: t('breaksOutsideEntry'),
+  path: ['breaks'],
 });
 
-const paymentSchema = (t: (key: string) => string) => z.object({
-  amount: z.coerce.number().min(0, t('paymentAmountRequired')),
+const clockInSchema = (t: (key: string) => string) => z.object({
+  employeeId: z.string().min(1, t('employeeIsRequired')),
+  locationId: z.string().min(1, t('locationIsRequired')),
 });
 
 
@@ -97,8 +121,19 @@ export function TimeLogList() {
     addTimeEntry, 
     updateTimeEntry, 
     deleteTimeEntry,
+    clockIn,
+    clockOut,
+    pauseTimeEntry,
+    resumeTimeEntry,
+    getRunningEntry,
     getEmployeeName,
-    getLocationName
+    getLocationName,
+    getEarnedAmount,
+    unmarkEntryPaid,
+    confirmWithPin,
+    getEntryPayments,
+    formatMoney,
+    permissions,
   } = useAppContext();
 
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
@@ -107,15 +142,19 @@ export function TimeLogList() {
   const [selectedEntry, setSelectedEntry] = useState<TimeEntry | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
-  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [paymentEntry, setPaymentEntry] = useState<TimeEntry | null>(null);
+  const [isClockInDialogOpen, setIsClockInDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
 
 
   const form = useForm<z.infer<ReturnType<typeof timeEntrySchema>>>({
     resolver: zodResolver(timeEntrySchema(t)),
   });
 
-  const paymentForm = useForm<z.infer<ReturnType<typeof paymentSchema>>>({
-    resolver: zodResolver(paymentSchema(t)),
+  const clockInForm = useForm<z.infer<ReturnType<typeof clockInSchema>>>({
+    resolver: zodResolver(clockInSchema(t)),
+    defaultValues: { employeeId: '', locationId: '' },
   });
 
   const openDialogForEdit = (entry: TimeEntry) => {
@@ -126,8 +165,8 @@ export function TimeLogList() {
       employeeId: entry.employeeId,
       locationId: entry.locationId,
       startTime: format(parseISO(entry.startTime), "HH:mm"),
-      endTime: format(parseISO(entry.endTime), "HH:mm"),
-      amount: entry.amount,
+      endTime: entry.endTime ? format(parseISO(entry.endTime), "HH:mm") : '',
+      ...toBreakFormValues(entry),
     });
     setIsFormDialogOpen(true);
   };
@@ -143,7 +182,7 @@ export function TimeLogList() {
       locationId: '',
       startTime: format(startTime, "HH:mm"),
       endTime: format(endTime, "HH:mm"),
-      amount: undefined,
+      ...toBreakFormValues(),
     });
     setIsFormDialogOpen(true);
   };
@@ -154,61 +193,77 @@ export function TimeLogList() {
   };
 
   const onSubmit = (values: z.infer<ReturnType<typeof timeEntrySchema>>) => {
-    const createDate = (time: string) => {
-        const [hours, minutes] = time.split(':').map(Number);
-        const date = new Date(selectedDate);
-        date.setHours(hours);
-        date.setMinutes(minutes);
-        date.setSeconds(0);
-        date.setMilliseconds(0);
-        return date.toISOString();
-    }
-    
+    const times = buildEntryTimes(selectedDate, values.startTime, values.endTime);
     const entryData = {
       employeeId: values.employeeId,
       locationId: values.locationId,
-      startTime: createDate(values.startTime),
-      endTime: createDate(values.endTime),
-      amount: values.amount,
+      ...times,
+      ...fromBreakFormValues(times.startTime, values),
     };
 
+    // The paid status is changed through payments only, see PaymentDialog.
     if (editingEntry) {
-      updateTimeEntry({ ...entryData, id: editingEntry.id, paid: editingEntry.paid });
+      updateTimeEntry({ ...entryData, id: editingEntry.id });
     } else {
       addTimeEntry(entryData);
     }
     setIsFormDialogOpen(false);
   };
 
-  function onPaymentSubmit(values: z.infer<ReturnType<typeof paymentSchema>>) {
-    if (selectedEntry) {
-      const updatedEntry = { ...selectedEntry, paid: true, amount: values.amount };
-      updateTimeEntry(updatedEntry);
-      // Also update the selected entry in the detail view if it's open
-      if (isDetailDialogOpen) {
-          setSelectedEntry(updatedEntry);
-      }
-    }
-    setIsPaymentDialogOpen(false);
-    paymentForm.reset();
+  function onClockInSubmit(values: z.infer<ReturnType<typeof clockInSchema>>) {
+    clockIn(values.employeeId, values.locationId);
+    setIsClockInDialogOpen(false);
+    clockInForm.reset();
   }
+
+  const handleClockOut = (entry: TimeEntry, event?: React.MouseEvent) => {
+    event?.stopPropagation();
+    clockOut(entry.id);
+  };
+
+  const handleTogglePause = (entry: TimeEntry, event?: React.MouseEvent) => {
+    event?.stopPropagation();
+    if (isPaused(entry)) {
+      resumeTimeEntry(entry.id);
+    } else {
+      pauseTimeEntry(entry.id);
+    }
+  };
+
+  // Keep the detail view in step with live changes such as clocking out or pausing.
+  useEffect(() => {
+    if (!selectedEntry) return;
+    const current = timeEntries.find((entry) => entry.id === selectedEntry.id);
+    if (current && current !== selectedEntry) {
+      setSelectedEntry(current);
+    }
+  }, [timeEntries, selectedEntry]);
   
   const dayEntries = timeEntries
-    .filter((entry) => isSameDay(parseISO(entry.startTime), selectedDate))
+    .filter((entry) => isEntryOnDay(entry, selectedDate))
     .sort((a, b) => parseISO(b.startTime).getTime() - parseISO(a.startTime).getTime());
 
+  // Night shifts from the previous evening are listed for reference, but their
+  // hours stay with the day they started on.
+  const carriedOverEntries = timeEntries.filter((entry) => isCarriedOverToDay(entry, selectedDate));
+
+  const dayTotalHours = dayEntries.reduce((acc, entry) => acc + calculateDurationInHours(entry), 0);
+
+  const watchedStartTime = form.watch('startTime');
+  const watchedEndTime = form.watch('endTime');
+
+  const now = useNow(1000, dayEntries.some(isRunning) || (!!selectedEntry && isRunning(selectedEntry)));
+
   const handlePaymentClick = (entry: TimeEntry, event: React.MouseEvent) => {
     event.stopPropagation();
-    if (!entry.paid) {
-        setSelectedEntry(entry);
-        paymentForm.reset({ amount: entry.amount || 0 });
-        setIsPaymentDialogOpen(true);
+    if (!entry.paid && !isRunning(entry)) {
+        setPaymentEntry(entry);
     }
   };
 
   const handleMarkAsUnpaid = (entry: TimeEntry, event: React.MouseEvent) => {
     event.stopPropagation();
-    updateTimeEntry({ ...entry, paid: false, amount: undefined });
+    confirmWithPin(() => unmarkEntryPaid(entry.id));
   };
 
 
@@ -221,6 +276,84 @@ export function TimeLogList() {
             {t('loggedHoursDescription')}
           </CardDescription>
         </div>
+        <div className="flex flex-wrap justify-end gap-2">
+        {permissions.isAdmin && (
+        <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+          <FileUp className="mr-2 h-4 w-4" /> {t('importCsv')}
+        </Button>
+        )}
+        <Button variant="outline" onClick={() => setIsExportDialogOpen(true)}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" /> {t('exportCsv')}
+        </Button>
+        {permissions.canLogAnyTime && (
+        <>
+        <Dialog open={isClockInDialogOpen} onOpenChange={setIsClockInDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="secondary">
+              <Play className="mr-2 h-4 w-4" /> {t('clockIn')}
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('clockIn')}</DialogTitle>
+              <DialogDescription>{t('clockInDescription')}</DialogDescription>
+            </DialogHeader>
+            <Form {...clockInForm}>
+              <form onSubmit={clockInForm.handleSubmit(onClockInSubmit)} className="space-y-4">
+                <FormField
+                  control={clockInForm.control}
+                  name="employeeId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('employee')}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                           <FormControl>
+                            <SelectTrigger>
+                                <SelectValue placeholder={t('selectEmployee')} />
+                            </SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                                {employees.map(e => (
+                                  <SelectItem key={e.id} value={e.id} disabled={!!getRunningEntry(e.id)}>{e.name}</SelectItem>
+                                ))}
+                           </SelectContent>
+                        </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={clockInForm.control}
+                  name="locationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('location')}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                           <FormControl>
+                            <SelectTrigger>
+                                <SelectValue placeholder={t('selectLocation')} />
+                            </SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                                {locations.map(l => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                           </SelectContent>
+                        </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button type="button" variant="secondary">{t('cancel')}</Button>
+                  </DialogClose>
+                  <Button type="submit">
+                    <Play className="mr-2 h-4 w-4" /> {t('clockIn')}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
         <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
           <DialogTrigger asChild>
             <Button onClick={openDialogForAdd}>
@@ -324,7 +457,7 @@ export function TimeLogList() {
                     name="endTime"
                     render={({ field }) => (
                         <FormItem className="flex-1">
-                        <FormLabel>{t('endTime')}</FormLabel>
+                        <FormLabel>{t('endTime')} <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
                         <FormControl>
                             <Input type="time" {...field} />
                         </FormControl>
@@ -333,19 +466,10 @@ export function TimeLogList() {
                     )}
                     />
                 </div>
-                <FormField
-                    control={form.control}
-                    name="amount"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>{t('amount')} ({t('currency')}) <span className="text-muted-foreground">({t('optional')})</span></FormLabel>
-                        <FormControl>
-                            <Input type="number" placeholder="e.g. 50000" {...field} onChange={e => field.onChange(e.target.valueAsNumber)} />
-                        </FormControl>
-                        <FormMessage />
-                        </FormItem>
-                    )}
-                />
+                {watchedStartTime && watchedEndTime && isOvernight(watchedStartTime, watchedEndTime) && (
+                    <p className="text-sm text-muted-foreground">{t('endsNextDay')}</p>
+                )}
+                <BreakFields control={form.control} />
                 <DialogFooter>
                   <DialogClose asChild>
                     <Button type="button" variant="secondary">{t('cancel')}</Button>
@@ -359,6 +483,9 @@ export function TimeLogList() {
             </Form>
           </DialogContent>
         </Dialog>
+        </>
+        )}
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -402,7 +529,9 @@ export function TimeLogList() {
                                     <p className="font-medium">{getEmployeeName(entry.employeeId)}</p>
                                     <p className="text-sm text-muted-foreground">{getLocationName(entry.locationId)}</p>
                                 </div>
-                                {entry.paid ? (
+                                {!permissions.isAdmin ? (
+                                    <PaidStatus entry={entry} className="p-1 -m-1" />
+                                ) : entry.paid ? (
                                     <AlertDialog>
                                         <AlertDialogTrigger asChild>
                                             <button onClick={(e) => e.stopPropagation()} className="p-1 -m-1 border rounded-md">
@@ -420,6 +549,8 @@ export function TimeLogList() {
                                             </AlertDialogFooter>
                                         </AlertDialogContent>
                                     </AlertDialog>
+                                ) : isRunning(entry) ? (
+                                    <PaidStatus entry={entry} className="p-1 -m-1" />
                                 ) : (
                                     <button onClick={(e) => handlePaymentClick(entry, e)} className="p-1 -m-1 border rounded-md">
                                         <DollarSign className="h-5 w-5 text-destructive" />
@@ -429,9 +560,25 @@ export function TimeLogList() {
                               <div className="flex justify-between items-center text-sm">
                                 <div className="flex items-center gap-2 text-muted-foreground">
                                   <Clock className="h-4 w-4" />
-                                  <span>{formatTime(entry.startTime)} - {formatTime(entry.endTime)}</span>
+                                  <span>{formatTime(entry.startTime)} - {isRunning(entry) ? t('running') : formatEndTime(entry.startTime, entry.endTime)}</span>
                                 </div>
-                                <p className="font-medium">{calculateDuration(entry.startTime, entry.endTime)}</p>
+                                {isRunning(entry) ? (
+                                  <div className="flex items-center gap-2">
+                                    <span className="font-mono font-medium text-primary">{isPaused(entry) ? t('paused') : formatElapsed(entry, now)}</span>
+                                    {permissions.canEditEntry(entry) && (
+                                    <>
+                                    <Button size="sm" variant="outline" onClick={(e) => handleTogglePause(entry, e)} aria-label={isPaused(entry) ? t('resume') : t('pause')}>
+                                      {isPaused(entry) ? <Play className="h-4 w-4" /> : <Coffee className="h-4 w-4" />}
+                                    </Button>
+                                    <Button size="sm" variant="destructive" onClick={(e) => handleClockOut(entry, e)}>
+                                      <Square className="mr-2 h-4 w-4" /> {t('clockOut')}
+                                    </Button>
+                                    </>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <p className="font-medium">{calculateDuration(entry)}</p>
+                                )}
                               </div>
                             </div>
                           ))}
@@ -444,6 +591,7 @@ export function TimeLogList() {
                               <TableHead>{t('start')}</TableHead>
                               <TableHead>{t('end')}</TableHead>
                               <TableHead>{t('duration')}</TableHead>
+                              <TableHead>{t('earned')}</TableHead>
                               <TableHead>{t('paid')}</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -453,10 +601,30 @@ export function TimeLogList() {
                                 <TableCell className="font-medium">{getEmployeeName(entry.employeeId)}</TableCell>
                                 <TableCell>{getLocationName(entry.locationId)}</TableCell>
                                 <TableCell>{formatTime(entry.startTime)}</TableCell>
-                                <TableCell>{formatTime(entry.endTime)}</TableCell>
-                                <TableCell>{calculateDuration(entry.startTime, entry.endTime)}</TableCell>
                                 <TableCell>
-                                   {entry.paid ? (
+                                  {isRunning(entry) && permissions.canEditEntry(entry) ? (
+                                    <div className="flex items-center gap-2">
+                                      <Button size="sm" variant="outline" onClick={(e) => handleTogglePause(entry, e)} aria-label={isPaused(entry) ? t('resume') : t('pause')}>
+                                        {isPaused(entry) ? <Play className="h-4 w-4" /> : <Coffee className="h-4 w-4" />}
+                                      </Button>
+                                      <Button size="sm" variant="destructive" onClick={(e) => handleClockOut(entry, e)}>
+                                        <Square className="mr-2 h-4 w-4" /> {t('clockOut')}
+                                      </Button>
+                                    </div>
+                                  ) : isRunning(entry) ? t('running') : formatEndTime(entry.startTime, entry.endTime)}
+                                </TableCell>
+                                <TableCell>
+                                  {isRunning(entry) ? (
+                                    <Badge variant={isPaused(entry) ? 'outline' : 'secondary'} className="font-mono">
+                                      {isPaused(entry) ? t('paused') : formatElapsed(entry, now)}
+                                    </Badge>
+                                  ) : calculateDuration(entry)}
+                                </TableCell>
+                                <TableCell>{formatMoney(getEarnedAmount(entry))}</TableCell>
+                                <TableCell>
+                                   {!permissions.isAdmin ? (
+                                        <PaidStatus entry={entry} className="p-1" />
+                                      ) : entry.paid ? (
                                         <AlertDialog>
                                             <AlertDialogTrigger asChild>
                                                 <button onClick={(e) => e.stopPropagation()} className="p-1 border rounded-md">
@@ -474,6 +642,8 @@ export function TimeLogList() {
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
                                         </AlertDialog>
+                                      ) : isRunning(entry) ? (
+                                        <PaidStatus entry={entry} className="p-1" />
                                       ) : (
                                         <button onClick={(e) => handlePaymentClick(entry, e)} className="p-1 border rounded-md">
                                             <DollarSign className="h-5 w-5 text-destructive" />
@@ -484,12 +654,30 @@ export function TimeLogList() {
                             ))}
                           </TableBody>
                         </Table>
+                        <div className="flex justify-end text-sm">
+                            <span className="text-muted-foreground">{t('dayTotal')}:&nbsp;</span>
+                            <span className="font-semibold">{formatMinutes(dayTotalHours * 60)}</span>
+                        </div>
                     </>
                  ) : (
                     <div className="text-center py-10 text-muted-foreground border rounded-md h-full flex flex-col justify-center items-center">
                         <p>{t('noEntriesForThisDay')}</p>
                     </div>
                  )}
+
+                 {carriedOverEntries.length > 0 && (
+                    <div className="space-y-1 text-sm">
+                        <p className="text-muted-foreground">{t('continuedFromPreviousDay')}</p>
+                        {carriedOverEntries.map((entry) => (
+                            <div key={entry.id} className="flex justify-between border border-dashed rounded-md p-2 cursor-pointer hover:bg-muted/50" onClick={() => openDialogForDetails(entry)}>
+                                <span>{getEmployeeName(entry.employeeId)} · {getLocationName(entry.locationId)}</span>
+                                <span className="text-muted-foreground">
+                                    {formatDate(entry.startTime)} {formatTime(entry.startTime)} - {isRunning(entry) ? t('running') : formatEndTime(entry.startTime, entry.endTime)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                 )}
             </div>
         </div>
         
@@ -530,32 +718,51 @@ export function TimeLogList() {
                     <Clock className="h-5 w-5 text-muted-foreground" />
                     <div>
                       <p className="text-sm text-muted-foreground">{t('time')}</p>
-                      <p className="font-medium">{formatTime(selectedEntry.startTime)} - {formatTime(selectedEntry.endTime)}</p>
+                      <p className="font-medium">{formatTime(selectedEntry.startTime)} - {isRunning(selectedEntry) ? t('running') : formatEndTime(selectedEntry.startTime, selectedEntry.endTime)}</p>
                     </div>
                   </div>
                    <div className="flex items-center gap-4">
                     <Info className="h-5 w-5 text-muted-foreground" />
                     <div>
-                      <p className="text-sm text-muted-foreground">{t('duration')}</p>
-                      <p className="font-medium">{calculateDuration(selectedEntry.startTime, selectedEntry.endTime)}</p>
+                      <p className="text-sm text-muted-foreground">{t('netDuration')}</p>
+                      <p className="font-medium">
+                        {isRunning(selectedEntry) ? formatElapsed(selectedEntry, now) : calculateDuration(selectedEntry)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {t('grossDuration')}: {calculateGrossDuration(selectedEntry)} · {t('breaks')}: {formatMinutes(getBreakMinutes(selectedEntry, now))}
+                      </p>
                     </div>
                   </div>
+                  {getEarnedAmount(selectedEntry) !== undefined && (
+                    <div className="flex items-center gap-4">
+                      <DollarSign className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm text-muted-foreground">{t('earned')}</p>
+                        <p className="font-medium">{formatMoney(getEarnedAmount(selectedEntry))}</p>
+                      </div>
+                    </div>
+                  )}
+                  {isRunning(selectedEntry) && permissions.canEditEntry(selectedEntry) && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button variant="outline" className="w-full" onClick={() => handleTogglePause(selectedEntry)}>
+                        {isPaused(selectedEntry) ? <Play className="mr-2 h-4 w-4" /> : <Coffee className="mr-2 h-4 w-4" />}
+                        {isPaused(selectedEntry) ? t('resume') : t('pause')}
+                      </Button>
+                      <Button variant="destructive" className="w-full" onClick={() => handleClockOut(selectedEntry)}>
+                        <Square className="mr-2 h-4 w-4" /> {t('clockOut')}
+                      </Button>
+                    </div>
+                  )}
+                  {permissions.isAdmin && (selectedEntry.paid || !isRunning(selectedEntry)) && (
                   <div className="flex items-center space-x-2 pt-4">
                     <Checkbox
                         id="paid"
                         checked={selectedEntry.paid}
                         onCheckedChange={(checked) => {
                             if (!checked) {
-                              const newEntry = { ...selectedEntry, paid: false, amount: undefined };
-                              updateTimeEntry(newEntry);
-                              setSelectedEntry(newEntry);
-                            } else if (selectedEntry.amount === undefined) {
-                               setIsPaymentDialogOpen(true)
-                            }
-                             else {
-                                const newEntry = { ...selectedEntry, paid: true };
-                                updateTimeEntry(newEntry);
-                                setSelectedEntry(newEntry);
+                              confirmWithPin(() => unmarkEntryPaid(selectedEntry.id));
+                            } else {
+                              setPaymentEntry(selectedEntry);
                             }
                         }}
                     />
@@ -566,16 +773,28 @@ export function TimeLogList() {
                         {t('markAsPaid')}
                     </label>
                  </div>
-                 {selectedEntry.paid && selectedEntry.amount && (
+                 )}
+                 {selectedEntry.paid && selectedEntry.amount !== undefined && selectedEntry.amount > 0 && (
                     <div className="flex items-center gap-4">
                         <DollarSign className="h-5 w-5 text-muted-foreground" />
                         <div>
                         <p className="text-sm text-muted-foreground">{t('amountPaid')}</p>
-                        <p className="font-medium">{selectedEntry.amount.toLocaleString()} {t('currency')}</p>
+                        <p className="font-medium">{formatMoney(selectedEntry.amount)}</p>
                         </div>
                     </div>
                 )}
+                {getEntryPayments(selectedEntry.id).map((payment) => (
+                    <div key={payment.id} className="flex items-center gap-4">
+                        <DollarSign className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                        <p className="text-sm text-muted-foreground">{t('paidWith')} · {formatDate(payment.date)} · {t(`paymentMethod_${payment.method}`)}</p>
+                        <p className="font-medium">{formatMoney(payment.amount)}</p>
+                        </div>
+                    </div>
+                ))}
+                <RecordAuditTrail recordId={selectedEntry.id} />
                 </div>
+                {permissions.canEditEntry(selectedEntry) ? (
                 <DialogFooter className="grid grid-cols-1 sm:grid-cols-3 gap-2">
                    <AlertDialog>
                       <AlertDialogTrigger asChild>
@@ -604,45 +823,26 @@ export function TimeLogList() {
                         <Edit className="mr-2 h-4 w-4" /> {t('edit')}
                     </Button>
                 </DialogFooter>
+                ) : (
+                <DialogFooter>
+                    <Button type="button" variant="secondary" onClick={() => setIsDetailDialogOpen(false)}>{t('close')}</Button>
+                </DialogFooter>
+                )}
               </>
             )}
           </DialogContent>
         </Dialog>
         
-        {/* Payment Dialog */}
-        <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
-            <DialogContent>
-                <DialogHeader>
-                    <DialogTitle>{t('enterPaymentAmount')}</DialogTitle>
-                </DialogHeader>
-                <Form {...paymentForm}>
-                    <form onSubmit={paymentForm.handleSubmit(onPaymentSubmit)} className="space-y-4">
-                        <FormField
-                        control={paymentForm.control}
-                        name="amount"
-                        render={({ field }) => (
-                            <FormItem>
-                            <FormLabel>{t('amount')} ({t('currency')})</FormLabel>
-                            <FormControl>
-                                <Input type="number" placeholder="e.g. 50000" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                            </FormItem>
-                        )}
-                        />
-                        <DialogFooter>
-                        <DialogClose asChild>
-                            <Button type="button" variant="secondary">{t('cancel')}</Button>
-                        </DialogClose>
-                        <Button type="submit">{t('saveAndMarkPaid')}</Button>
-                        </DialogFooter>
-                    </form>
-                </Form>
-            </DialogContent>
-        </Dialog>
-
+        <PaymentDialog
+          open={paymentEntry !== null}
+          onOpenChange={(isOpen) => !isOpen && setPaymentEntry(null)}
+          employeeId={paymentEntry?.employeeId || null}
+          entryIds={paymentEntry ? [paymentEntry.id] : []}
+        />
 
+        <TimeEntryExportDialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen} />
+        <TimeEntryImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
       </CardContent>
     </Card>
   );
-}
+}
\ No newline at end of file
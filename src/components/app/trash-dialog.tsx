@@ -0,0 +1,153 @@
+'use client';
+
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppContext } from '@/context/app-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDate, formatDateTime, formatEndTime, formatTime } from '@/lib/utils';
+import { TRASH_RETENTION_OPTIONS, getTrashExpiry, getTrashedRecords } from '@/lib/trash';
+import type { TrashItem } from '@/types';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TrashDialog({ open, onOpenChange }: TrashDialogProps) {
+  const { t } = useTranslation();
+  const {
+    trash,
+    employees,
+    locations,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    trashRetentionDays,
+    setTrashRetentionDays,
+  } = useAppContext();
+
+  // Entries can belong to an employee or location that is in the trash as well.
+  const findName = (records: { id: string; name: string }[], id: string) =>
+    records.find((record) => record.id === id)?.name || t('unknown');
+  const getEmployeeName = (id: string) => findName([...employees, ...getTrashedRecords(trash, 'employee')], id);
+  const getLocationName = (id: string) => findName([...locations, ...getTrashedRecords(trash, 'location')], id);
+
+  const describe = (item: TrashItem) => {
+    switch (item.type) {
+      case 'timeEntry':
+        return {
+          title: `${getEmployeeName(item.record.employeeId)} · ${getLocationName(item.record.locationId)}`,
+          detail: `${formatDate(item.record.startTime)} ${formatTime(item.record.startTime)}${item.record.endTime ? ` – ${formatEndTime(item.record.startTime, item.record.endTime)}` : ''}`,
+        };
+      case 'employee': {
+        const entryCount = trash.filter((other) => other.type === 'timeEntry' && other.record.employeeId === item.id).length;
+        return { title: item.record.name, detail: entryCount > 0 ? `${t('trashedEntries')}: ${entryCount}` : '' };
+      }
+      case 'location':
+        return { title: item.record.name, detail: '' };
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('trash')}</DialogTitle>
+          <DialogDescription>{t('trashDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="trash-retention">{t('trashRetention')}</Label>
+            <Select value={String(trashRetentionDays)} onValueChange={(value) => setTrashRetentionDays(Number(value))}>
+              <SelectTrigger id="trash-retention" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>{days} {t('days')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={trash.length === 0}>
+                <Trash2 className="mr-2 h-4 w-4" /> {t('emptyTrash')}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                <AlertDialogDescription>{t('emptyTrashConfirmation')}</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={emptyTrash}>{t('emptyTrash')}</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+        <div className="max-h-[60vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead>{t('deletedAt')}</TableHead>
+                <TableHead>{t('purgedOn')}</TableHead>
+                <TableHead className="text-right">{t('action')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trash.length > 0 ? trash.map((item) => {
+                const { title, detail } = describe(item);
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Badge variant="outline" className="mb-1">{t(`trashItemType_${item.type}`)}</Badge>
+                      <p className="font-medium">{title}</p>
+                      {detail && <p className="text-sm text-muted-foreground">{detail}</p>}
+                    </TableCell>
+                    <TableCell>{formatDateTime(item.deletedAt)}</TableCell>
+                    <TableCell>{formatDate(getTrashExpiry(item, trashRetentionDays).toISOString())}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => restoreFromTrash(item.id)} aria-label={t('restore')}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={t('deletePermanently')}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{t('areYouSure')}</AlertDialogTitle>
+                            <AlertDialogDescription>{t('deletePermanentlyConfirmation')}</AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteFromTrash(item.id)}>{t('deletePermanently')}</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">{t('trashEmpty')}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,57 +1,401 @@
 
 'use client';
 
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, type Dispatch, type SetStateAction } from 'react';
+import { Loader2 } from 'lucide-react';
 import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useCollection } from '@/hooks/use-collection';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { useRemoteSync, type SyncStatus } from '@/hooks/use-remote-sync';
+import { useFirestoreSync, type FirestoreState } from '@/hooks/use-firestore-sync';
+import { useAppLock, type PinResult } from '@/hooks/use-app-lock';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
-import type { TimeEntry, Employee, Location } from '@/types';
+import { StorageErrorScreen } from '@/components/app/storage-error-screen';
+import { RecoveryScreen } from '@/components/app/recovery-screen';
+import { LockScreen } from '@/components/app/lock-screen';
+import { KioskScreen } from '@/components/app/kiosk-screen';
+import { PinDialog } from '@/components/app/pin-dialog';
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
+import { isPaused, isRunning } from '@/lib/utils';
+import { calculateEarnedAmount } from '@/lib/wages';
+import { combineData, type AppData, type ImportMode } from '@/lib/backup';
+import { findByName, type TimeEntryImport } from '@/lib/time-entry-import';
+import { DEFAULT_TRASH_RETENTION_DAYS, getItemsToPurge, getItemsToRestore, getTrashedRecords, isTrashExpired } from '@/lib/trash';
+import { CorruptDataError, MigrationError, applyChanges, openStorage, type OpenedStorage, type StorageError, type StoredRecord } from '@/lib/storage';
+import { DEFAULT_CURRENCY, formatMoney as formatAmount, getCurrencySymbol } from '@/lib/money';
+import { getEmployeeBalance as calculateEmployeeBalance, getOutstandingAdjustments as findOutstandingAdjustments } from '@/lib/ledger';
+import { invertChange, type DataChange, type HistoryEntry } from '@/lib/history';
+import { buildAuditRecords } from '@/lib/audit';
+import { getDeviceId, guessDeviceName } from '@/lib/device';
+import { appendLinks, getSealItems, getUnsealedItems, verifyChain, type ChainChanges, type ChainVerification } from '@/lib/hash-chain';
+import { SYNC_KEYS, type SyncChanges, type SyncKey, type SyncSettings } from '@/lib/remote-sync';
+import type { FirestoreSettings } from '@/lib/firestore-sync';
+import { getActiveProfile, getPermissions, hasAdmin, hasAdminPins, type Permissions } from '@/lib/permissions';
+import { APP_PIN_KEY, DEFAULT_LOCK_SETTINGS, canUseProfilePins, employeePinKey, getPinKey, getPinSecret, profilePinKey, type LockSettings, type PinThrottle } from '@/lib/pin';
+import { DEFAULT_KIOSK_SETTINGS, KIOSK_VERIFICATION_MS, getKioskEmployees, type KioskSettings } from '@/lib/kiosk';
+import type { TimeEntry, Employee, Location, Payment, Adjustment, PayrollLine, PayrollRun, CurrencySettings, TrashItem, AuditRecord, AuditActor, ChainLink, UserProfile, PinSecret } from '@/types';
 import { subMonths, eachDayOfInterval, setHours, setMinutes, setSeconds, setMilliseconds } from 'date-fns';
 
+export type HistoryAction =
+  | 'addTimeEntry' | 'updateTimeEntry' | 'clockIn' | 'clockOut' | 'pauseTimeEntry' | 'resumeTimeEntry'
+  | 'deleteTimeEntry' | 'deleteTimeEntriesForEmployee'
+  | 'addEmployee' | 'updateEmployee' | 'deleteEmployee' | 'addLocation' | 'deleteLocation'
+  | 'addPayment' | 'deletePayment' | 'unmarkEntryPaid' | 'addAdjustment' | 'deleteAdjustment' | 'confirmPayrollRun'
+  | 'importData' | 'importTimeEntries' | 'generateDemoData'
+  | 'restoreFromTrash' | 'deleteFromTrash' | 'emptyTrash';
+
+// Actions that remove or replace data show a toast with an undo button.
+const UNDO_TOAST_ACTIONS: HistoryAction[] = [
+  'deleteTimeEntry',
+  'deleteTimeEntriesForEmployee',
+  'deleteEmployee',
+  'deleteLocation',
+  'deletePayment',
+  'unmarkEntryPaid',
+  'deleteAdjustment',
+  'generateDemoData',
+  'deleteFromTrash',
+  'emptyTrash',
+];
+
+// Actions that take the PIN, see confirmWithPin. Undoing or repeating them
+// takes the PIN as well.
+const PIN_ACTIONS: HistoryAction[] = [
+  'deleteTimeEntriesForEmployee',
+  'addPayment',
+  'deletePayment',
+  'unmarkEntryPaid',
+  'deleteAdjustment',
+  'confirmPayrollRun',
+  'importData',
+  'importTimeEntries',
+];
+
+// Actions that cannot be undone. Importing a backup replaces the audit log and
+// the hash chain, which the history does not keep, so it clears the history:
+// undoing it, or anything before it, would leave the log out of step.
+const FINAL_ACTIONS: HistoryAction[] = ['importData'];
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 interface AppContextType {
   timeEntries: TimeEntry[];
   employees: Employee[];
   locations: Location[];
-  addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'paid'>) => void;
-  updateTimeEntry: (updatedEntry: TimeEntry) => void;
+  payments: Payment[];
+  adjustments: Adjustment[];
+  payrollRuns: PayrollRun[];
+  trash: TrashItem[];
+  auditLog: AuditRecord[];
+  hashChain: ChainLink[];
+  runningEntries: TimeEntry[];
+  addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'paid' | 'amount'>) => void;
+  updateTimeEntry: (updatedEntry: Omit<TimeEntry, 'paid' | 'amount'>) => void;
+  clockIn: (employeeId: string, locationId: string) => void;
+  clockOut: (id: string) => void;
+  pauseTimeEntry: (id: string) => void;
+  resumeTimeEntry: (id: string) => void;
+  getRunningEntry: (employeeId: string) => TimeEntry | undefined;
   deleteTimeEntry: (id: string) => void;
   deleteTimeEntriesForEmployee: (employeeId: string) => void;
   addEmployee: (employee: Omit<Employee, 'id'>) => void;
+  updateEmployee: (updatedEmployee: Employee) => void;
   deleteEmployee: (id: string) => void;
   addLocation: (location: Omit<Location, 'id'>) => void;
   deleteLocation: (id: string) => void;
+  addPayment: (payment: Omit<Payment, 'id'>) => void;
+  deletePayment: (id: string) => void;
+  unmarkEntryPaid: (entryId: string) => void;
+  getEntryPayments: (entryId: string) => Payment[];
+  addAdjustment: (adjustment: Omit<Adjustment, 'id'>) => void;
+  deleteAdjustment: (id: string) => void;
+  getOutstandingAdjustments: (employeeId: string) => Adjustment[];
+  getEmployeeBalance: (employeeId: string) => { earned: number; paid: number; deducted: number; balance: number };
+  confirmPayrollRun: (run: Omit<PayrollRun, 'id' | 'confirmedAt'>) => PayrollRun | undefined;
   getEmployeeName: (id: string) => string;
   getLocationName: (id: string) => string;
+  getEarnedAmount: (entry: TimeEntry) => number | undefined;
+  currency: CurrencySettings;
+  setCurrency: (currency: CurrencySettings) => void;
+  currencySymbol: string;
+  formatMoney: (amount: number | undefined) => string;
+  exportData: () => AppData;
+  importData: (data: AppData, mode: ImportMode) => void;
+  importTimeEntries: (rows: TimeEntryImport[]) => { employees: number; locations: number; entries: number; payments: number } | undefined;
   generateDemoData: () => void;
+  restoreFromTrash: (id: string) => void;
+  deleteFromTrash: (id: string) => void;
+  emptyTrash: () => void;
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => void;
+  deviceName: string;
+  setDeviceName: (name: string) => void;
+  tamperEvident: boolean;
+  setTamperEvident: (enabled: boolean) => void;
+  sealUnsealedRecords: () => void;
+  verifyIntegrity: () => ChainVerification;
+  syncSettings: SyncSettings;
+  configureSync: (settings: SyncSettings) => void;
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<boolean>;
+  firestoreSettings: FirestoreSettings;
+  configureFirestore: (settings: FirestoreSettings) => void;
+  firestoreStatus: FirestoreState;
+  profiles: UserProfile[];
+  activeProfile?: UserProfile;
+  permissions: Permissions;
+  saveProfile: (profile: Omit<UserProfile, 'id'> & { id?: string }) => void;
+  deleteProfile: (id: string) => void;
+  switchProfile: (id: string) => void;
+  lockSettings: LockSettings;
+  configureLock: (settings: LockSettings) => void;
+  lockApp: () => void;
+  unlockApp: (pin: string, profileId?: string) => PinResult;
+  confirmWithPin: (action: () => void) => void;
+  getPinThrottle: (key: string) => PinThrottle;
+  kioskSettings: KioskSettings;
+  configureKiosk: (settings: KioskSettings) => void;
+  kioskEmployees: Employee[];
+  kioskLocation?: Location;
+  checkKioskPin: (employeeId: string, pin: string) => PinResult;
+  kioskClockIn: (employeeId: string) => void;
+  kioskClockOut: (id: string) => void;
+  unlockKiosk: (pin: string, profileId?: string) => PinResult;
+  undo: () => void;
+  redo: () => void;
+  undoAction?: HistoryAction;
+  redoAction?: HistoryAction;
+  getUndoToastAction: () => ToastActionElement | undefined;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [timeEntries, setTimeEntries] = useLocalStorage<TimeEntry[]>('timeEntries', []);
-  const [employees, setEmployees] = useLocalStorage<Employee[]>('employees', []);
-  const [locations, setLocations] = useLocalStorage<Location[]>('locations', []);
+  const [storage, setStorage] = useState<OpenedStorage | null>(null);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
   const { toast } = useToast();
-  const { t } = useTranslation();
+  const { t, language, setLanguage, languages } = useTranslation();
+
+  const showStorageWriteError = () => {
+    toast({
+      title: t('storageWriteErrorTitle'),
+      description: t('storageWriteErrorDescription'),
+      variant: 'destructive',
+    });
+  };
+
+  const [timeEntries, setStoredTimeEntries, timeEntriesLoaded] = useCollection(storage, 'timeEntries', showStorageWriteError);
+  const [employees, setStoredEmployees, employeesLoaded] = useCollection(storage, 'employees', showStorageWriteError);
+  const [locations, setStoredLocations, locationsLoaded] = useCollection(storage, 'locations', showStorageWriteError);
+  const [payments, setStoredPayments, paymentsLoaded] = useCollection(storage, 'payments', showStorageWriteError);
+  const [adjustments, setStoredAdjustments, adjustmentsLoaded] = useCollection(storage, 'adjustments', showStorageWriteError);
+  const [payrollRuns, setStoredPayrollRuns, payrollRunsLoaded] = useCollection(storage, 'payrollRuns', showStorageWriteError);
+  const [trash, setStoredTrash, trashLoaded] = useCollection(storage, 'trash', showStorageWriteError);
+  // Written next to the mutations, never by them, see appendAudit.
+  const [auditLog, setAuditLog, auditLogLoaded] = useCollection(storage, 'auditLog', showStorageWriteError);
+  // Written like the audit log, see sealChanges.
+  const [hashChain, setHashChain, hashChainLoaded] = useCollection(storage, 'hashChain', showStorageWriteError);
+  // Mutations go through the history's setters, so that they can be undone.
+  const history = useUndoHistory<HistoryAction>(
+    { timeEntries, employees, locations, payments, adjustments, payrollRuns, trash },
+    {
+      timeEntries: setStoredTimeEntries,
+      employees: setStoredEmployees,
+      locations: setStoredLocations,
+      payments: setStoredPayments,
+      adjustments: setStoredAdjustments,
+      payrollRuns: setStoredPayrollRuns,
+      trash: setStoredTrash,
+    }
+  );
+  const {
+    timeEntries: setTimeEntries,
+    employees: setEmployees,
+    locations: setLocations,
+    payments: setPayments,
+    adjustments: setAdjustments,
+    payrollRuns: setPayrollRuns,
+    trash: setTrash,
+  } = history.setters;
+  // Settings are small and stay in localStorage.
+  const [currency, setCurrency] = useLocalStorage<CurrencySettings>('currency', DEFAULT_CURRENCY);
+  const [trashRetentionDays, setTrashRetentionDays] = useLocalStorage<number>('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+  const [deviceName, setDeviceName] = useLocalStorage<string>('deviceName', '');
+  const [tamperEvident, setTamperEvidentSetting] = useLocalStorage<boolean>('tamperEvident', false);
+  const [profiles, setProfiles] = useLocalStorage<UserProfile[]>('userProfiles', []);
+  const [activeProfileId, setActiveProfileId] = useLocalStorage<string | null>('activeProfileId', null);
+  const activeProfile = getActiveProfile(profiles, activeProfileId);
+  const permissions = getPermissions(activeProfile);
+  const [lockSettings, setLockSettings] = useLocalStorage<LockSettings>('lockSettings', DEFAULT_LOCK_SETTINGS);
+  const appLock = useAppLock(lockSettings);
+  // The kiosk takes the place of the lock screen, so it shows on launch,
+  // after the idle timeout and whenever the app is locked.
+  const [kioskSettings, setKioskSettings] = useLocalStorage<KioskSettings>('kioskSettings', DEFAULT_KIOSK_SETTINGS);
+  const isKioskShown = kioskSettings.enabled && appLock.isLocked;
+  // The worker whose PIN was entered last on the kiosk, see checkKioskPin.
+  const kioskVerification = useRef<{ employeeId: string; expiresAt: number } | null>(null);
+  // A sensitive action or profile switch waiting for a PIN, see getPinKey.
+  const [pinRequest, setPinRequest] = useState<{ key: string; secret: PinSecret | null; description?: string; action: () => void } | null>(null);
+
+  useEffect(() => {
+    openStorage({ currency, language })
+      .then(setStorage)
+      .catch((error) => {
+        console.error('Error opening storage', error);
+        const isKnown = error instanceof MigrationError || error instanceof CorruptDataError;
+        setStorageError(isKnown ? error : new MigrationError('loadFailed', 0, undefined, { cause: error }));
+      });
+  }, []);
+
+  // Changes from the sync server or Firestore are not actions of this device:
+  // they bypass the history and are logged by the device that made them.
+  const storedSetters: { [K in SyncKey]: Dispatch<SetStateAction<StoredRecord<K>[]>> } = {
+    timeEntries: setStoredTimeEntries,
+    employees: setStoredEmployees,
+    locations: setStoredLocations,
+    payments: setStoredPayments,
+    adjustments: setStoredAdjustments,
+    payrollRuns: setStoredPayrollRuns,
+    trash: setStoredTrash,
+    auditLog: setAuditLog,
+  };
+  const applyRemoteChanges = (changes: SyncChanges) => {
+    SYNC_KEYS.forEach(<K extends SyncKey>(key: K) => {
+      const collectionChanges = changes[key];
+      if (collectionChanges) storedSetters[key]((prev) => applyChanges(prev, collectionChanges));
+    });
+    sealChanges(changes);
+  };
+
+  const showSyncStorageError = () => {
+    toast({
+      title: t('syncStorageErrorTitle'),
+      description: t('syncStorageErrorDescription'),
+      variant: 'destructive',
+    });
+  };
 
-  const addTimeEntry = (entry: Omit<TimeEntry, 'id' | 'paid'>) => {
-    const paid = entry.amount !== undefined && entry.amount > 0;
-    const newEntry = { ...entry, id: crypto.randomUUID(), paid };
+  const recordsLoaded = timeEntriesLoaded && employeesLoaded && locationsLoaded && paymentsLoaded && adjustmentsLoaded && payrollRunsLoaded && trashLoaded && auditLogLoaded && hashChainLoaded;
+  const remoteSync = useRemoteSync(storage, recordsLoaded, applyRemoteChanges, showSyncStorageError);
+  // The app waits for the sync outbox as well, so that no change is queued before it is loaded.
+  const isLoaded = recordsLoaded && remoteSync.isLoaded;
+  const firestoreSync = useFirestoreSync(isLoaded, { employees, locations, timeEntries }, applyRemoteChanges);
+
+  // Items past the retention period are purged on startup and whenever the
+  // period is shortened. Purging is not an action of the user, so it is not
+  // part of the undo history, but it is synced like any other change.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const now = new Date();
+    const expired = trash.filter((item) => isTrashExpired(item, trashRetentionDays, now));
+    if (expired.length === 0) return;
+    const expiredIds = new Set(expired.map((item) => item.id));
+    setStoredTrash((prev) => prev.filter((item) => !expiredIds.has(item.id)));
+    recordChange('purgeTrash', { trash: { put: [], delete: [...expiredIds], previous: expired } });
+  }, [isLoaded, trashRetentionDays]);
+
+  // New entries are unpaid; they are paid through addPayment.
+  const addTimeEntry = (entry: Omit<TimeEntry, 'id' | 'paid' | 'amount'>) => {
+    const newEntry = { ...entry, id: crypto.randomUUID(), paid: false };
     setTimeEntries((prev) => [newEntry, ...prev]);
+    return newEntry;
   };
 
-  const updateTimeEntry = (updatedEntry: TimeEntry) => {
+  // The paid status and amount stay as they are: changing them is a payment,
+  // which takes the PIN, see PIN_ACTIONS.
+  const updateTimeEntry = (updatedEntry: Omit<TimeEntry, 'paid' | 'amount'>) => {
     setTimeEntries((prev) =>
-      prev.map((entry) => (entry.id === updatedEntry.id ? updatedEntry : entry))
+      prev.map((entry) => (entry.id === updatedEntry.id
+        ? { ...updatedEntry, paid: entry.paid, ...(entry.amount !== undefined && { amount: entry.amount }) }
+        : entry))
     );
   };
 
+  const runningEntries = timeEntries.filter(isRunning);
+
+  const getRunningEntry = (employeeId: string) => {
+    return runningEntries.find((entry) => entry.employeeId === employeeId);
+  };
+
+  const clockIn = (employeeId: string, locationId: string) => {
+    if (getRunningEntry(employeeId)) {
+      toast({
+        title: t('clockInErrorTitle'),
+        description: t('alreadyClockedInDescription'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    addTimeEntry({ employeeId, locationId, startTime: new Date().toISOString() });
+  };
+
+  // Clocking out also ends a break that is still running.
+  const clockOut = (id: string) => {
+    const endTime = new Date().toISOString();
+    setTimeEntries((prev) =>
+      prev.map((entry) => (entry.id === id && isRunning(entry) ? {
+        ...entry,
+        endTime,
+        breaks: entry.breaks?.map((pause) => (pause.endTime ? pause : { ...pause, endTime })),
+      } : entry))
+    );
+  };
+
+  const pauseTimeEntry = (id: string) => {
+    const startTime = new Date().toISOString();
+    setTimeEntries((prev) =>
+      prev.map((entry) => (entry.id === id && isRunning(entry) && !isPaused(entry)
+        ? { ...entry, breaks: [...(entry.breaks || []), { startTime }] }
+        : entry))
+    );
+  };
+
+  const resumeTimeEntry = (id: string) => {
+    const endTime = new Date().toISOString();
+    setTimeEntries((prev) =>
+      prev.map((entry) => (entry.id === id && isPaused(entry)
+        ? { ...entry, breaks: entry.breaks?.map((pause) => (pause.endTime ? pause : { ...pause, endTime })) }
+        : entry))
+    );
+  };
+
+  // Payments stay in the ledger when their entries are deleted, since the
+  // money was still handed out; they only lose the link.
+  const unlinkPayments = (entryIds: string[]) => {
+    setPayments((prev) =>
+      prev.map((payment) => ({ ...payment, entryIds: payment.entryIds.filter((id) => !entryIds.includes(id)) }))
+    );
+  };
+
+  const addToTrash = (items: TrashItem[]) => {
+    const ids = items.map((item) => item.id);
+    setTrash((prev) => [...items, ...prev.filter((item) => !ids.includes(item.id))]);
+  };
+
+  // Deleted entries go to the trash. They lose their payment links like before,
+  // but the trash remembers them for a restore.
+  const trashTimeEntries = (entries: TimeEntry[], deletedAt = new Date().toISOString()) => {
+    if (entries.length === 0) return;
+    const entryIds = entries.map((entry) => entry.id);
+    addToTrash(entries.map((entry) => ({
+      id: entry.id,
+      deletedAt,
+      type: 'timeEntry',
+      record: entry,
+      paymentIds: payments.filter((payment) => payment.entryIds.includes(entry.id)).map((payment) => payment.id),
+    })));
+    setTimeEntries((prev) => prev.filter((entry) => !entryIds.includes(entry.id)));
+    unlinkPayments(entryIds);
+  };
+
   const deleteTimeEntry = (id: string) => {
-    setTimeEntries((prev) => prev.filter((entry) => entry.id !== id));
+    trashTimeEntries(timeEntries.filter((entry) => entry.id === id));
   };
   
   const deleteTimeEntriesForEmployee = (employeeId: string) => {
-    setTimeEntries((prev) => prev.filter((entry) => entry.employeeId !== employeeId));
+    trashTimeEntries(timeEntries.filter((entry) => entry.employeeId === employeeId));
   };
 
   const addEmployee = (employee: Omit<Employee, 'id'>) => {
@@ -59,9 +403,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setEmployees((prev) => [...prev, newEmployee]);
   };
 
+  const updateEmployee = (updatedEmployee: Employee) => {
+    setEmployees((prev) =>
+      prev.map((employee) => (employee.id === updatedEmployee.id ? updatedEmployee : employee))
+    );
+  };
+
+  // The employee's entries go to the trash with them. Payments and advances
+  // are part of the ledger and keep the employee from being deleted.
   const deleteEmployee = (id: string) => {
-    const hasEntries = timeEntries.some((entry) => entry.employeeId === id);
-    if (hasEntries) {
+    const employee = employees.find((e) => e.id === id);
+    if (!employee) return;
+    const hasLedger = payments.some((payment) => payment.employeeId === id)
+      || adjustments.some((adjustment) => adjustment.employeeId === id);
+    if (hasLedger) {
       toast({
         title: t('deleteErrorTitle'),
         description: t('deleteEmployeeErrorDescription'),
@@ -69,6 +424,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       });
       return;
     }
+    const deletedAt = new Date().toISOString();
+    trashTimeEntries(timeEntries.filter((entry) => entry.employeeId === id), deletedAt);
+    addToTrash([{ id, deletedAt, type: 'employee', record: employee }]);
     setEmployees((prev) => prev.filter((employee) => employee.id !== id));
   };
 
@@ -78,6 +436,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const deleteLocation = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    if (!location) return;
     const hasEntries = timeEntries.some((entry) => entry.locationId === id);
     if (hasEntries) {
       toast({
@@ -87,9 +447,114 @@ export function AppProvider({ children }: { children: ReactNode }) {
       });
       return;
     }
+    addToTrash([{ id, deletedAt: new Date().toISOString(), type: 'location', record: location }]);
     setLocations((prev) => prev.filter((location) => location.id !== id));
   };
 
+  const addPayment = (payment: Omit<Payment, 'id'>) => {
+    const newPayment = { ...payment, id: crypto.randomUUID() };
+    setPayments((prev) => [...prev, newPayment]);
+    setTimeEntries((prev) =>
+      prev.map((entry) => (payment.entryIds.includes(entry.id) ? { ...entry, paid: true } : entry))
+    );
+  };
+
+  // Payments of a confirmed payroll run and the entries they settle are locked,
+  // so that the run record keeps matching the ledger.
+  const isLockedByPayrollRun = (matches: (line: PayrollLine) => boolean) => {
+    const isLocked = payrollRuns.some((run) => run.lines.some((line) => line.paymentId && matches(line)));
+    if (isLocked) {
+      toast({
+        title: t('payrollRunLockedTitle'),
+        description: t('payrollRunLockedDescription'),
+        variant: 'destructive',
+      });
+    }
+    return isLocked;
+  };
+
+  // Entries settled by the deleted payment become unpaid again, unless another
+  // payment also covers them.
+  const deletePayment = (id: string) => {
+    const payment = payments.find((p) => p.id === id);
+    if (!payment) return;
+    if (isLockedByPayrollRun((line) => line.paymentId === id)) return;
+    const remaining = payments.filter((p) => p.id !== id);
+    const stillCovered = (entryId: string) => remaining.some((p) => p.entryIds.includes(entryId));
+    setPayments(remaining);
+    setTimeEntries((prev) =>
+      prev.map((entry) => (payment.entryIds.includes(entry.id) && !stillCovered(entry.id) ? { ...entry, paid: false } : entry))
+    );
+  };
+
+  // A payment made for this entry alone is removed together with the paid
+  // status. Payments that also cover other entries only lose the link.
+  const unmarkEntryPaid = (entryId: string) => {
+    if (isLockedByPayrollRun((line) => line.entryIds.includes(entryId))) return;
+    setPayments((prev) => prev
+      .filter((payment) => !(payment.entryIds.length === 1 && payment.entryIds[0] === entryId))
+      .map((payment) => ({ ...payment, entryIds: payment.entryIds.filter((id) => id !== entryId) }))
+    );
+    setTimeEntries((prev) =>
+      prev.map((entry) => (entry.id === entryId ? { ...entry, paid: false, amount: undefined } : entry))
+    );
+  };
+
+  const getEntryPayments = (entryId: string) => {
+    return payments.filter((payment) => payment.entryIds.includes(entryId));
+  };
+
+  const addAdjustment = (adjustment: Omit<Adjustment, 'id'>) => {
+    setAdjustments((prev) => [...prev, { ...adjustment, id: crypto.randomUUID() }]);
+  };
+
+  // Payments that netted the adjustment keep their amount and only lose the link.
+  const deleteAdjustment = (id: string) => {
+    if (isLockedByPayrollRun((line) => line.adjustmentIds.includes(id))) return;
+    setAdjustments((prev) => prev.filter((adjustment) => adjustment.id !== id));
+    setPayments((prev) =>
+      prev.map((payment) => (payment.adjustmentIds?.includes(id)
+        ? { ...payment, adjustmentIds: payment.adjustmentIds.filter((other) => other !== id) }
+        : payment))
+    );
+  };
+
+  const getOutstandingAdjustments = (employeeId: string) => {
+    return findOutstandingAdjustments(employeeId, adjustments, payments);
+  };
+
+  // Pays out every line of the run in one step: each line becomes a payment that
+  // settles the line's entries and nets its adjustments, and the run is stored
+  // as a record. Lines with nothing to pay and nothing to net get no payment.
+  const confirmPayrollRun = (run: Omit<PayrollRun, 'id' | 'confirmedAt'>) => {
+    const confirmedAt = new Date().toISOString();
+    const newPayments: Payment[] = [];
+    const lines = run.lines.map((line) => {
+      if (line.amount <= 0 && line.adjustmentIds.length === 0) return { ...line, paymentId: undefined };
+      const payment: Payment = {
+        id: crypto.randomUUID(),
+        employeeId: line.employeeId,
+        date: confirmedAt,
+        amount: line.amount,
+        method: run.method,
+        note: `${t('payrollRun')} ${run.periodStart} – ${run.periodEnd}`,
+        entryIds: line.entryIds,
+        adjustmentIds: line.adjustmentIds,
+      };
+      newPayments.push(payment);
+      return { ...line, paymentId: payment.id };
+    });
+    const paidEntryIds = newPayments.flatMap((payment) => payment.entryIds);
+    const newRun: PayrollRun = { ...run, id: crypto.randomUUID(), confirmedAt, lines };
+
+    setPayments((prev) => [...prev, ...newPayments]);
+    setTimeEntries((prev) =>
+      prev.map((entry) => (paidEntryIds.includes(entry.id) ? { ...entry, paid: true } : entry))
+    );
+    setPayrollRuns((prev) => [newRun, ...prev]);
+    return newRun;
+  };
+
   const getEmployeeName = (id: string) => {
     return employees.find((e) => e.id === id)?.name || t('unknown');
   };
@@ -98,19 +563,108 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return locations.find((l) => l.id === id)?.name || t('unknown');
   };
 
+  const getEarnedAmount = (entry: TimeEntry) => {
+    const employee = employees.find((e) => e.id === entry.employeeId);
+    return calculateEarnedAmount(entry, employee, timeEntries);
+  };
+
+  const getEmployeeBalance = (employeeId: string) => {
+    return calculateEmployeeBalance(employeeId, timeEntries, payments, adjustments, getEarnedAmount);
+  };
+
+  const currencySymbol = getCurrencySymbol(currency, language);
+
+  // Amounts that cannot be worked out, such as earnings without a rate, show as "-".
+  const formatMoney = (amount: number | undefined) => {
+    return amount === undefined ? '-' : formatAmount(amount, currency, language);
+  };
+
+  const exportData = (): AppData => ({
+    timeEntries,
+    employees,
+    locations,
+    payments,
+    adjustments,
+    payrollRuns,
+    trash,
+    auditLog,
+    hashChain,
+    currency,
+    language,
+  });
+
+  const importData = (data: AppData, mode: ImportMode) => {
+    const combined = combineData(exportData(), data, mode);
+    setTimeEntries(combined.timeEntries);
+    setEmployees(combined.employees);
+    setLocations(combined.locations);
+    setPayments(combined.payments);
+    setAdjustments(combined.adjustments);
+    setPayrollRuns(combined.payrollRuns);
+    setTrash(combined.trash);
+    setAuditLog(combined.auditLog);
+    setHashChain(combined.hashChain);
+    setCurrency(combined.currency);
+    if (combined.language in languages) {
+      setLanguage(combined.language);
+    }
+  };
+
+  // Employees and locations are matched by name and created when missing; the
+  // entries themselves are added like any other entry, and an amount already
+  // paid for an entry like any other payment.
+  const importTimeEntries = (rows: TimeEntryImport[]) => {
+    const newEmployees: Employee[] = [];
+    const newLocations: Location[] = [];
+    const resolve = <T extends { id: string; name: string }>(existing: T[], created: T[], name: string) => {
+      const match = findByName(existing, name) || findByName(created, name);
+      if (match) return match.id;
+      const record = { id: crypto.randomUUID(), name: name.trim() } as T;
+      created.push(record);
+      return record.id;
+    };
+
+    let paymentCount = 0;
+    rows.forEach((row) => {
+      const entry = addTimeEntry({
+        ...row.entry,
+        employeeId: resolve(employees, newEmployees, row.employeeName),
+        locationId: resolve(locations, newLocations, row.locationName),
+      });
+      if (row.amountPaid) {
+        addPayment({
+          employeeId: entry.employeeId,
+          date: entry.endTime ?? entry.startTime,
+          amount: row.amountPaid,
+          method: 'other',
+          note: t('importedPaymentNote'),
+          entryIds: [entry.id],
+        });
+        paymentCount += 1;
+      }
+    });
+    setEmployees((prev) => [...prev, ...newEmployees]);
+    setLocations((prev) => [...prev, ...newLocations]);
+    return { employees: newEmployees.length, locations: newLocations.length, entries: rows.length, payments: paymentCount };
+  };
+
   const generateDemoData = () => {
     // Reset all data
     setTimeEntries([]);
+    setPayments([]);
+    setAdjustments([]);
+    setPayrollRuns([]);
+    setTrash([]);
     setEmployees([]);
     setLocations([]);
   
     // Create employees
     const demoEmployees: Employee[] = [
-      { id: 'emp1', name: 'علي حسن' },
-      { id: 'emp2', name: 'فاطمة محمد' },
-      { id: 'emp3', name: 'أحمد عبدالله' },
-      { id: 'emp4', name: 'John Doe' },
-      { id: 'emp5', name: 'Jane Smith' },
+      { id: 'emp1', name: 'علي حسن', payModel: 'daily', rate: 35000 },
+      { id: 'emp2', name: 'فاطمة محمد', payModel: 'daily', rate: 30000 },
+      { id: 'emp3', name: 'أحمد عبدالله', payModel: 'daily', rate: 45000 },
+      { id: 'emp4', name: 'John Doe', payModel: 'hourly', rate: 5000 },
+      { id: 'emp5', name: 'Jane Smith', payModel: 'fixed', rate: 25000 },
     ];
     setEmployees(demoEmployees);
   
@@ -151,49 +705,524 @@ export function AppProvider({ children }: { children: ReactNode }) {
           const durationMinutes = Math.floor(Math.random() * 60);
           let endTime = new Date(startTime.getTime() + durationHours * 60 * 60 * 1000 + durationMinutes * 60 * 1000);
           
-          // isPaid status and amount
-          const isPaid = Math.random() > 0.4; // ~60% are paid
-          const amount = isPaid ? 25000 + Math.floor(Math.random() * 25) * 1000 : undefined;
-  
           demoTimeEntries.push({
             id: crypto.randomUUID(),
             employeeId: employee.id,
             locationId: location.id,
             startTime: startTime.toISOString(),
             endTime: endTime.toISOString(),
-            paid: isPaid,
-            amount: amount,
+            paid: false,
           });
         }
       }
     });
-  
-    setTimeEntries(demoTimeEntries);
 
+    // ~60% of the entries are paid, each with a payment of what it earned,
+    // like a payment recorded for a single entry.
+    const demoPayments: Payment[] = demoTimeEntries
+      .filter(() => Math.random() > 0.4)
+      .map((entry) => ({
+        id: crypto.randomUUID(),
+        employeeId: entry.employeeId,
+        date: entry.endTime!,
+        amount: calculateEarnedAmount(entry, demoEmployees.find((employee) => employee.id === entry.employeeId), demoTimeEntries) ?? 0,
+        method: Math.random() > 0.3 ? 'cash' : 'bankTransfer',
+        entryIds: [entry.id],
+      }));
+    const paidEntryIds = new Set(demoPayments.flatMap((payment) => payment.entryIds));
+
+    setTimeEntries(demoTimeEntries.map((entry) => (paidEntryIds.has(entry.id) ? { ...entry, paid: true } : entry)));
+    setPayments(demoPayments);
+  };
+
+  const withRestored = <T extends { id: string }>(records: T[], restored: T[]) => {
+    const ids = restored.map((record) => record.id);
+    return [...records.filter((record) => !ids.includes(record.id)), ...restored];
+  };
+
+  // Restores the item together with what it depends on, see getItemsToRestore.
+  // Entries are linked again to the payments that still exist.
+  const restoreFromTrash = (id: string) => {
+    const items = getItemsToRestore(trash, id);
+    if (items.length === 0) return;
+    const itemIds = items.map((item) => item.id);
+    const entryItems = items.filter((item) => item.type === 'timeEntry');
+    setEmployees((prev) => withRestored(prev, getTrashedRecords(items, 'employee')));
+    setLocations((prev) => withRestored(prev, getTrashedRecords(items, 'location')));
+    setTimeEntries((prev) => withRestored(prev, getTrashedRecords(items, 'timeEntry')));
+    setPayments((prev) => prev.map((payment) => {
+      const entryIds = entryItems
+        .filter((item) => item.paymentIds.includes(payment.id) && !payment.entryIds.includes(item.id))
+        .map((item) => item.id);
+      return entryIds.length > 0 ? { ...payment, entryIds: [...payment.entryIds, ...entryIds] } : payment;
+    }));
+    setTrash((prev) => prev.filter((item) => !itemIds.includes(item.id)));
+  };
+
+  const deleteFromTrash = (id: string) => {
+    const itemIds = getItemsToPurge(trash, id).map((item) => item.id);
+    setTrash((prev) => prev.filter((item) => !itemIds.includes(item.id)));
+  };
+
+  const emptyTrash = () => {
+    setTrash([]);
+  };
+
+  const getUndoToastAction = (entry = history.getLastEntry()) => entry && (
+    <ToastAction altText={t('undo')} onClick={() => undo(entry.id)}>{t('undo')}</ToastAction>
+  );
+
+  const getActor = (): AuditActor => ({ deviceId: getDeviceId(), deviceName: deviceName || guessDeviceName() });
+
+  // Logs every change to entries, employees and locations, including the ones
+  // made by undo and redo.
+  const appendAudit = (action: string, change: DataChange) => {
+    const records = buildAuditRecords(change, action, getActor());
+    if (records.length > 0) {
+      setAuditLog((prev) => [...records, ...prev]);
+      remoteSync.enqueue({ auditLog: { put: records, delete: [] } });
+    }
+  };
+
+  // Everything that follows a change of the data. Imported records are not
+  // sealed: a backup brings its own chain, and merged records are left for
+  // verification to report as unsealed.
+  const recordChange = (action: string, change: DataChange) => {
+    appendAudit(action, change);
+    if (action !== 'importData') sealChanges(change);
+    remoteSync.enqueue(change);
+    firestoreSync.enqueue(change);
+  };
+
+  // In tamper-evident mode, every change to a finalized entry or payment is
+  // appended to the hash chain, so that changes made any other way show up when
+  // the chain is verified.
+  const sealChanges = (change: ChainChanges) => {
+    if (!tamperEvident) return;
+    const timestamp = new Date().toISOString();
+    setHashChain((prev) => {
+      const items = getSealItems(change, prev);
+      return items.length > 0 ? appendLinks(prev, items, timestamp) : prev;
+    });
+  };
+
+  const sealUnsealedRecords = () => {
+    const timestamp = new Date().toISOString();
+    setHashChain((prev) => {
+      const items = getUnsealedItems({ timeEntries, payments }, prev);
+      return items.length > 0 ? appendLinks(prev, items, timestamp) : prev;
+    });
+  };
+
+  // Turning the mode on seals what is finalized already. The chain stays when
+  // it is turned off, it only stops growing.
+  const setTamperEvident = (enabled: boolean) => {
+    setTamperEvidentSetting(enabled);
+    if (enabled) sealUnsealedRecords();
+  };
+
+  const verifyIntegrity = () => verifyChain(hashChain, { timeEntries, payments });
+
+  const showPermissionDenied = () => {
     toast({
-      title: t('demoDataGenerated'),
-      description: t('demoDataGeneratedDescription'),
+      title: t('permissionDeniedTitle'),
+      description: t('permissionDeniedDescription'),
+      variant: 'destructive',
     });
   };
 
+  // Refuses a mutation the active profile may not make, before anything is
+  // changed or recorded.
+  const permitted = <A extends unknown[], R>(isAllowed: (...args: NoInfer<A>) => boolean, mutate: (...args: A) => R) => (...args: A): R | undefined => {
+    if (!isAllowed(...args)) {
+      showPermissionDenied();
+      return undefined;
+    }
+    return mutate(...args);
+  };
+
+  const adminOnly = () => permissions.isAdmin;
+
+  // Entries that are gone already are let through; the mutation does nothing then.
+  const canEditEntryWithId = (id: string) => {
+    const entry = timeEntries.find((other) => other.id === id);
+    return !entry || permissions.canEditEntry(entry);
+  };
+
+  const canAddTimeEntry = (entry: Omit<TimeEntry, 'id' | 'paid' | 'amount'>) =>
+    permissions.canLogTime(entry.employeeId, entry.locationId);
+
+  const canUpdateTimeEntry = (updatedEntry: Omit<TimeEntry, 'paid' | 'amount'>) => {
+    const entry = timeEntries.find((other) => other.id === updatedEntry.id);
+    if (!entry || permissions.isAdmin) return true;
+    return permissions.canEditEntry(entry)
+      && permissions.canLogTime(updatedEntry.employeeId, updatedEntry.locationId);
+  };
+
+  // Keeps an admin around to manage the profiles. Removing the last profile
+  // turns profiles off again. While profile PINs lock the app, every profile
+  // needs a PIN to unlock it.
+  const updateProfiles = (next: UserProfile[]) => {
+    const error = !hasAdmin(next) ? 'lastAdminErrorDescription'
+      : !hasAdminPins(next) ? 'adminPinRequiredDescription'
+      : lockSettings.mode === 'profile' && !canUseProfilePins(next) ? 'profilePinRequiredDescription'
+      : null;
+    if (error) {
+      toast({
+        title: t('profileErrorTitle'),
+        description: t(error),
+        variant: 'destructive',
+      });
+      return false;
+    }
+    setProfiles(next);
+    return true;
+  };
+
+  // The first profile becomes the active one.
+  const saveProfile = (profile: Omit<UserProfile, 'id'> & { id?: string }) => {
+    const saved = { ...profile, id: profile.id || crypto.randomUUID() };
+    const exists = profiles.some((other) => other.id === saved.id);
+    const next = exists ? profiles.map((other) => (other.id === saved.id ? saved : other)) : [...profiles, saved];
+    if (updateProfiles(next) && profiles.length === 0) {
+      setActiveProfileId(saved.id);
+    }
+  };
+
+  const deleteProfile = (id: string) => {
+    updateProfiles(profiles.filter((profile) => profile.id !== id));
+  };
+
+  // Switching takes the PIN of the new profile, so that roles cannot be
+  // skipped with one tap. Only an admin, who may do everything anyway,
+  // switches freely, unless the app is locked with profile PINs.
+  const switchProfile = (id: string) => {
+    const profile = profiles.find((other) => other.id === id);
+    if (!profile || profile.id === activeProfile?.id) return;
+    if (permissions.isAdmin && lockSettings.mode !== 'profile') {
+      setActiveProfileId(id);
+      return;
+    }
+    if (!profile.pin) {
+      toast({
+        title: t('permissionDeniedTitle'),
+        description: t('switchProfileWithoutPinDescription'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    setPinRequest({ key: profilePinKey(id), secret: profile.pin, description: profile.name, action: () => setActiveProfileId(id) });
+  };
+
+  const configureLock = (settings: LockSettings) => {
+    const error = settings.mode === 'app' && !settings.appPin ? 'appPinRequiredDescription'
+      : settings.mode === 'profile' && !canUseProfilePins(profiles) ? 'profilePinRequiredDescription'
+      : settings.mode === 'off' && kioskSettings.enabled ? 'kioskLockRequiredDescription'
+      : null;
+    if (error) {
+      toast({
+        title: t('lockErrorTitle'),
+        description: t(error),
+        variant: 'destructive',
+      });
+      return;
+    }
+    setLockSettings(settings);
+  };
+
+  const unlockApp = (pin: string, profileId?: string) => {
+    const profile = profiles.find((other) => other.id === profileId) ?? activeProfile;
+    const result = appLock.checkPin(getPinKey(lockSettings, profile), getPinSecret(lockSettings, profile), pin);
+    if (result === 'ok') {
+      if (lockSettings.mode === 'profile' && profile) setActiveProfileId(profile.id);
+      appLock.unlock();
+    }
+    return result;
+  };
+
+  // Sensitive actions ask for the PIN again: the device PIN, or the PIN of
+  // the active profile.
+  const confirmWithPin = (action: () => void) => {
+    if (lockSettings.mode === 'off') {
+      action();
+      return;
+    }
+    setPinRequest({
+      key: getPinKey(lockSettings, activeProfile),
+      secret: getPinSecret(lockSettings, activeProfile),
+      description: lockSettings.mode === 'profile' ? activeProfile?.name : undefined,
+      action,
+    });
+  };
+
+  // Leaving the kiosk takes the admin PIN, so that a kiosk without the lock
+  // would leave the management screens open. Turning the kiosk on starts it.
+  const configureKiosk = (settings: KioskSettings) => {
+    const error = settings.enabled && lockSettings.mode === 'off' ? 'kioskLockRequiredDescription'
+      : settings.enabled && !locations.some((location) => location.id === settings.locationId) ? 'kioskLocationRequiredDescription'
+      : null;
+    if (error) {
+      toast({
+        title: t('kioskErrorTitle'),
+        description: t(error),
+        variant: 'destructive',
+      });
+      return;
+    }
+    setKioskSettings(settings);
+    if (settings.enabled && !kioskSettings.enabled) appLock.lock();
+  };
+
+  // The admin PIN is the app PIN, or with profile PINs the PIN of the chosen
+  // admin, who then becomes the active profile.
+  const unlockKiosk = (pin: string, profileId?: string) => {
+    const admin = profiles.find((profile) => profile.id === profileId && profile.role === 'admin');
+    if (lockSettings.mode === 'profile' && !admin) return 'wrong';
+    const result = appLock.checkPin(getPinKey(lockSettings, admin), getPinSecret(lockSettings, admin), pin);
+    if (result === 'ok') {
+      if (admin) setActiveProfileId(admin.id);
+      appLock.unlock();
+    }
+    return result;
+  };
+
+  // Workers on the kiosk are not profiles: their PIN stands in for the
+  // permission to clock themselves in and out at the kiosk's location. A
+  // correct PIN lets that worker, and only them, clock in or out once within
+  // KIOSK_VERIFICATION_MS.
+  const checkKioskPin = (employeeId: string, pin: string) => {
+    const employee = getKioskEmployees(employees).find((other) => other.id === employeeId);
+    if (!isKioskShown || !employee) return 'wrong';
+    const result = appLock.checkPin(employeePinKey(employeeId), employee.pin ?? null, pin);
+    kioskVerification.current = result === 'ok' ? { employeeId, expiresAt: Date.now() + KIOSK_VERIFICATION_MS } : null;
+    return result;
+  };
+
+  const isKioskVerified = (employeeId: string | undefined) => {
+    const verification = kioskVerification.current;
+    return isKioskShown && !!verification && verification.employeeId === employeeId && verification.expiresAt > Date.now();
+  };
+
+  // Locking drops a request that was still waiting for the PIN.
+  useEffect(() => {
+    if (appLock.isLocked) setPinRequest(null);
+  }, [appLock.isLocked]);
+
+  const submitPinRequest = (pin: string) => {
+    if (!pinRequest) return 'wrong';
+    const result = appLock.checkPin(pinRequest.key, pinRequest.secret, pin);
+    if (result === 'ok') {
+      setPinRequest(null);
+      pinRequest.action();
+    }
+    return result;
+  };
+
+  const undo = (entryId?: string) => {
+    const next = history.getLastEntry();
+    if (!next || (entryId && next.id !== entryId)) return;
+    if (!permissions.canApplyChange(invertChange(next.change))) {
+      showPermissionDenied();
+      return;
+    }
+    if (PIN_ACTIONS.includes(next.action)) {
+      confirmWithPin(() => undoEntry(next.id));
+      return;
+    }
+    undoEntry(next.id);
+  };
+
+  const undoEntry = (entryId: string) => {
+    const entry = history.undo(entryId);
+    if (!entry) return;
+    recordChange('undo', invertChange(entry.change));
+    toast({
+      title: `${t('undone')}: ${t(`historyAction_${entry.action}`)}`,
+      action: <ToastAction altText={t('redo')} onClick={redo}>{t('redo')}</ToastAction>,
+    });
+  };
+
+  const redo = () => {
+    const next = history.redoEntry;
+    if (!next) return;
+    if (!permissions.canApplyChange(next.change)) {
+      showPermissionDenied();
+      return;
+    }
+    if (PIN_ACTIONS.includes(next.action)) {
+      confirmWithPin(() => redoEntry(next.id));
+      return;
+    }
+    redoEntry(next.id);
+  };
+
+  const redoEntry = (entryId: string) => {
+    const entry = history.redo(entryId);
+    if (!entry) return;
+    recordChange('redo', entry.change);
+    toast({ title: `${t('redone')}: ${t(`historyAction_${entry.action}`)}` });
+  };
+
+  // Records the mutation in the history and offers to undo destructive ones.
+  const tracked = <A extends unknown[], R>(action: HistoryAction, mutate: (...args: A) => R) => (...args: A) => {
+    const { result, entry } = history.track(action, () => mutate(...args));
+    if (entry) recordChange(action, entry.change);
+    if (entry && FINAL_ACTIONS.includes(action)) history.clear();
+    if (entry && UNDO_TOAST_ACTIONS.includes(action)) showUndoToast(entry);
+    return result;
+  };
+
+  const showUndoToast = (entry: HistoryEntry<HistoryAction>) => {
+    toast({
+      title: t(`historyAction_${entry.action}`),
+      description: entry.action === 'generateDemoData' ? t('demoDataGeneratedDescription') : undefined,
+      action: getUndoToastAction(entry),
+    });
+  };
+
+  // Ctrl+Z / Cmd+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes, except while
+  // typing, where the browser's own undo applies, and while the app is locked.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target) || appLock.isLocked) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Foremen and workers only get the records they may see, and nothing of
+  // the ledger, the trash or the logs. Mutations still work on all records.
+  const visible = <T,>(records: T[], canSee: (record: T) => boolean) => (permissions.isAdmin ? records : records.filter(canSee));
+  const adminData = <T,>(records: T[]) => (permissions.isAdmin ? records : []);
+
   const value: AppContextType = {
-    timeEntries,
-    employees,
-    locations,
-    addTimeEntry,
-    updateTimeEntry,
-    deleteTimeEntry,
-    deleteTimeEntriesForEmployee,
-    addEmployee,
-    deleteEmployee,
-    addLocation,
-    deleteLocation,
+    timeEntries: visible(timeEntries, permissions.canSeeEntry),
+    employees: visible(employees, (employee) => permissions.canSeeEmployee(employee.id)),
+    locations: visible(locations, (location) => permissions.canSeeLocation(location.id)),
+    payments: adminData(payments),
+    adjustments: adminData(adjustments),
+    payrollRuns: adminData(payrollRuns),
+    trash: adminData(trash),
+    auditLog: adminData(auditLog),
+    hashChain: adminData(hashChain),
+    runningEntries: visible(runningEntries, permissions.canSeeEntry),
+    addTimeEntry: permitted(canAddTimeEntry, tracked('addTimeEntry', addTimeEntry)),
+    updateTimeEntry: permitted(canUpdateTimeEntry, tracked('updateTimeEntry', updateTimeEntry)),
+    clockIn: permitted(permissions.canLogTime, tracked('clockIn', clockIn)),
+    clockOut: permitted(canEditEntryWithId, tracked('clockOut', clockOut)),
+    pauseTimeEntry: permitted(canEditEntryWithId, tracked('pauseTimeEntry', pauseTimeEntry)),
+    resumeTimeEntry: permitted(canEditEntryWithId, tracked('resumeTimeEntry', resumeTimeEntry)),
+    getRunningEntry,
+    deleteTimeEntry: permitted(canEditEntryWithId, tracked('deleteTimeEntry', deleteTimeEntry)),
+    deleteTimeEntriesForEmployee: permitted(adminOnly, tracked('deleteTimeEntriesForEmployee', deleteTimeEntriesForEmployee)),
+    addEmployee: permitted(adminOnly, tracked('addEmployee', addEmployee)),
+    updateEmployee: permitted(adminOnly, tracked('updateEmployee', updateEmployee)),
+    deleteEmployee: permitted(adminOnly, tracked('deleteEmployee', deleteEmployee)),
+    addLocation: permitted(adminOnly, tracked('addLocation', addLocation)),
+    deleteLocation: permitted(adminOnly, tracked('deleteLocation', deleteLocation)),
+    addPayment: permitted(adminOnly, tracked('addPayment', addPayment)),
+    deletePayment: permitted(adminOnly, tracked('deletePayment', deletePayment)),
+    unmarkEntryPaid: permitted(adminOnly, tracked('unmarkEntryPaid', unmarkEntryPaid)),
+    getEntryPayments,
+    addAdjustment: permitted(adminOnly, tracked('addAdjustment', addAdjustment)),
+    deleteAdjustment: permitted(adminOnly, tracked('deleteAdjustment', deleteAdjustment)),
+    getOutstandingAdjustments,
+    getEmployeeBalance,
+    confirmPayrollRun: permitted(adminOnly, tracked('confirmPayrollRun', confirmPayrollRun)),
     getEmployeeName,
     getLocationName,
-    generateDemoData,
+    getEarnedAmount,
+    currency,
+    setCurrency: permitted(adminOnly, setCurrency),
+    currencySymbol,
+    formatMoney,
+    exportData,
+    importData: permitted(adminOnly, tracked('importData', importData)),
+    importTimeEntries: permitted(adminOnly, tracked('importTimeEntries', importTimeEntries)),
+    generateDemoData: permitted(adminOnly, tracked('generateDemoData', generateDemoData)),
+    restoreFromTrash: permitted(adminOnly, tracked('restoreFromTrash', restoreFromTrash)),
+    deleteFromTrash: permitted(adminOnly, tracked('deleteFromTrash', deleteFromTrash)),
+    emptyTrash: permitted(adminOnly, tracked('emptyTrash', emptyTrash)),
+    trashRetentionDays,
+    setTrashRetentionDays: permitted(adminOnly, setTrashRetentionDays),
+    deviceName,
+    setDeviceName: permitted(adminOnly, setDeviceName),
+    tamperEvident,
+    setTamperEvident: permitted(adminOnly, setTamperEvident),
+    sealUnsealedRecords: permitted(adminOnly, sealUnsealedRecords),
+    verifyIntegrity,
+    syncSettings: remoteSync.settings,
+    configureSync: permitted(adminOnly, (settings: SyncSettings) => remoteSync.configure(settings, exportData())),
+    syncStatus: remoteSync.status,
+    syncNow: remoteSync.syncNow,
+    firestoreSettings: firestoreSync.settings,
+    configureFirestore: permitted(adminOnly, firestoreSync.configure),
+    firestoreStatus: firestoreSync.status,
+    profiles,
+    activeProfile,
+    permissions,
+    saveProfile: permitted(adminOnly, saveProfile),
+    deleteProfile: permitted(adminOnly, deleteProfile),
+    switchProfile,
+    lockSettings,
+    configureLock: permitted(adminOnly, configureLock),
+    lockApp: appLock.lock,
+    unlockApp,
+    confirmWithPin,
+    getPinThrottle: appLock.getThrottle,
+    kioskSettings,
+    configureKiosk: permitted(adminOnly, configureKiosk),
+    kioskEmployees: isKioskShown ? getKioskEmployees(employees) : [],
+    kioskLocation: locations.find((location) => location.id === kioskSettings.locationId),
+    checkKioskPin,
+    kioskClockIn: permitted((employeeId) => isKioskVerified(employeeId), tracked('clockIn', (employeeId: string) => {
+      kioskVerification.current = null;
+      if (kioskSettings.locationId) clockIn(employeeId, kioskSettings.locationId);
+    })),
+    kioskClockOut: permitted((id) => isKioskVerified(timeEntries.find((entry) => entry.id === id)?.employeeId), tracked('clockOut', (id: string) => {
+      kioskVerification.current = null;
+      clockOut(id);
+    })),
+    unlockKiosk,
+    undo: () => undo(),
+    redo,
+    undoAction: history.undoEntry?.action,
+    redoAction: history.redoEntry?.action,
+    getUndoToastAction: () => getUndoToastAction(),
   };
 
-  return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
+  // Nothing is rendered that could save over data that failed to load.
+  if (storageError instanceof CorruptDataError) {
+    return <RecoveryScreen error={storageError} />;
+  }
+  if (storageError) {
+    return <StorageErrorScreen error={storageError} />;
+  }
+
+  return (
+    <AppContext.Provider value={value}>
+      {!isLoaded ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : isKioskShown ? <KioskScreen /> : appLock.isLocked ? <LockScreen /> : children}
+      <PinDialog
+        open={pinRequest !== null && !appLock.isLocked}
+        throttleKey={pinRequest?.key ?? APP_PIN_KEY}
+        description={pinRequest?.description}
+        onSubmit={submitPinRequest}
+        onCancel={() => setPinRequest(null)}
+      />
+    </AppContext.Provider>
+  );
 }
 
 export function useAppContext() {
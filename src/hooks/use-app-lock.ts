@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef } from 'react';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { INITIAL_PIN_THROTTLE, getRemainingDelay, registerFailure, verifyPin, type LockSettings, type PinThrottle } from '@/lib/pin';
+import type { PinSecret } from '@/types';
+
+export type PinResult = 'ok' | 'wrong' | 'blocked';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
+
+// Locks the app on launch and after the idle timeout, and checks PINs. Wrong
+// PINs are counted per PIN in localStorage, so that reloading or another tab
+// does not reset the retry delay.
+export function useAppLock(settings: LockSettings) {
+    const isEnabled = settings.mode !== 'off';
+    const [isLocked, setIsLocked] = useState(isEnabled);
+    const [throttles, setThrottles] = useLocalStorage<Record<string, PinThrottle>>('pinThrottles', {});
+    const lastActivity = useRef(Date.now());
+
+    // Turning the lock on does not lock right away, turning it off unlocks.
+    useEffect(() => {
+        if (!isEnabled) setIsLocked(false);
+    }, [isEnabled]);
+
+    useEffect(() => {
+        if (!isEnabled || isLocked) return;
+        lastActivity.current = Date.now();
+        const handleActivity = () => {
+            lastActivity.current = Date.now();
+        };
+        // Timers are paused while the device sleeps, so the time is checked
+        // again whenever the app comes back to the front.
+        const checkIdle = () => {
+            if (Date.now() - lastActivity.current >= settings.idleMinutes * 60 * 1000) {
+                setIsLocked(true);
+            }
+        };
+        ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+        document.addEventListener('visibilitychange', checkIdle);
+        const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+        return () => {
+            ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+            document.removeEventListener('visibilitychange', checkIdle);
+            clearInterval(interval);
+        };
+    }, [isEnabled, isLocked, settings.idleMinutes]);
+
+    const getThrottle = (key: string) => throttles[key] ?? INITIAL_PIN_THROTTLE;
+
+    // `key` names the PIN being tried, see getPinKey.
+    const checkPin = (key: string, secret: PinSecret | null, pin: string): PinResult => {
+        if (getRemainingDelay(getThrottle(key)) > 0) return 'blocked';
+        if (secret && verifyPin(pin, secret)) {
+            setThrottles(({ [key]: _reset, ...others }) => others);
+            return 'ok';
+        }
+        setThrottles((prev) => ({ ...prev, [key]: registerFailure(prev[key] ?? INITIAL_PIN_THROTTLE) }));
+        return 'wrong';
+    };
+
+    return {
+        isLocked: isEnabled && isLocked,
+        lock: () => setIsLocked(isEnabled),
+        unlock: () => setIsLocked(false),
+        getThrottle,
+        checkPin,
+    };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useRef } from 'react';
+import type { RecordKey } from '@/lib/backup';
+import { applyChanges, diffRecords, publishChanges, sortLoadedRecords, subscribeToChanges, type OpenedStorage, type StoredRecord } from '@/lib/storage';
+
+// Keeps one collection of records in state, like useLocalStorage does for a
+// single value. After every change only the records that were added, changed
+// or removed are written to the storage backend, and other open tabs merge
+// them into their own state. `onWriteError` is called when a write fails; the
+// changes it held stay unsaved and are written again with the next change.
+export function useCollection<K extends RecordKey>(opened: OpenedStorage | null, collection: K, onWriteError: (error: unknown) => void) {
+    const [records, setRecords] = useState<StoredRecord<K>[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // What the backend holds, to compare the next state against.
+    const persisted = useRef<StoredRecord<K>[]>([]);
+    const reportError = useRef(onWriteError);
+    reportError.current = onWriteError;
+
+    useEffect(() => {
+        if (!opened) return;
+        const sorted = sortLoadedRecords(collection, opened.data[collection]);
+        persisted.current = sorted;
+        setRecords(sorted);
+        setIsLoaded(true);
+    }, [opened, collection]);
+
+    useEffect(() => {
+        if (!opened || !isLoaded || records === persisted.current) return;
+        const before = persisted.current;
+        const changes = diffRecords(before, records);
+        persisted.current = records;
+        if (changes.put.length === 0 && changes.delete.length === 0) return;
+        opened.storage.write(collection, changes)
+            .then(() => publishChanges(collection, changes))
+            .catch((error) => {
+                console.error('Error writing to storage', error);
+                // The backend still holds the records from before, so the
+                // next diff includes them again.
+                persisted.current = applyChanges(persisted.current, diffRecords(records, before));
+                reportError.current(error);
+            });
+    }, [opened, collection, isLoaded, records]);
+
+    // Changes from other tabs are already stored, so they are applied to what
+    // the backend holds as well, and the write effect leaves them alone.
+    useEffect(() => {
+        if (!opened) return;
+        return subscribeToChanges(collection, (changes) => {
+            persisted.current = applyChanges(persisted.current, changes);
+            setRecords((prev) => applyChanges(prev, changes));
+        });
+    }, [opened, collection]);
+
+    return [records, setRecords, isLoaded] as const;
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect, useRef } from 'react';
+import { FirestoreError, type Firestore } from 'firebase/firestore';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import type { AppData } from '@/lib/backup';
+import { getDeviceId } from '@/lib/device';
+import { getFirestoreDb, isFirebaseConfigured, signInDevice } from '@/lib/firebase';
+import {
+    DEFAULT_FIRESTORE_SETTINGS,
+    FIRESTORE_KEYS,
+    joinWorkspace,
+    resolveRemoteChange,
+    subscribeToCollection,
+    versionKey,
+    writeChanges,
+    type FirestoreKey,
+    type FirestoreSettings,
+} from '@/lib/firestore-sync';
+import { INITIAL_MODIFIED_AT, groupChanges, toSyncChanges, type SyncChange, type SyncChanges, type SyncVersion } from '@/lib/remote-sync';
+
+export type FirestoreState = 'unavailable' | 'disabled' | 'connecting' | 'connected' | 'offline' | 'denied' | 'error';
+
+type FirestoreData = Pick<AppData, FirestoreKey>;
+
+// The version of every record this device last wrote or applied, to resolve
+// conflicts with what comes back from Firestore. Kept across reloads, since
+// a conflicting write can arrive long after the change was made.
+const VERSIONS_KEY = 'firestoreVersions';
+// The user id and workspace this device last joined, so that it only joins
+// again, which needs the network, when either changes.
+const MEMBERSHIP_KEY = 'firestoreMembership';
+
+function loadVersions(): Record<string, SyncVersion> {
+    try {
+        return JSON.parse(window.localStorage.getItem(VERSIONS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+// Mirrors employees, locations and time entries to Firestore, see
+// docs/firestore.md. The records stay in local storage as well; local changes
+// are written to Firestore, and real-time listeners hand the changes of other
+// devices to `applyRemoteChanges`.
+export function useFirestoreSync(isLoaded: boolean, data: FirestoreData, applyRemoteChanges: (changes: SyncChanges) => void) {
+    const [settings, setSettings] = useLocalStorage<FirestoreSettings>('firestoreSettings', DEFAULT_FIRESTORE_SETTINGS);
+    // Collections whose local records still have to be uploaded, after the
+    // first snapshot from the server shows which ones Firestore lacks.
+    const [pendingUpload, setPendingUpload] = useLocalStorage<FirestoreKey[]>('firestorePendingUpload', []);
+    const [state, setState] = useState<FirestoreState>('connecting');
+    const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+    const latest = useRef({ data, pendingUpload, applyRemoteChanges });
+    latest.current = { data, pendingUpload, applyRemoteChanges };
+    const versions = useRef<Record<string, SyncVersion> | null>(null);
+    // Changes made before the device has joined the workspace, which the
+    // rules would reject until then.
+    const waiting = useRef<SyncChange[] | null>([]);
+    const isAvailable = isFirebaseConfigured();
+    const isActive = isAvailable && settings.enabled && !!settings.workspaceId && !!settings.joinCode;
+
+    const getVersions = () => (versions.current ??= loadVersions());
+
+    const rememberVersions = (changes: SyncChange[]) => {
+        const known = getVersions();
+        changes.forEach((change) => {
+            known[versionKey(change.collection, change.id)] = { modifiedAt: change.modifiedAt, deviceId: change.deviceId };
+        });
+        try {
+            window.localStorage.setItem(VERSIONS_KEY, JSON.stringify(known));
+        } catch (error) {
+            console.error('Error writing to localStorage', error);
+        }
+    };
+
+    const write = (changes: SyncChange[]) => {
+        if (changes.length === 0) return;
+        rememberVersions(changes);
+        if (waiting.current) {
+            waiting.current.push(...changes);
+            return;
+        }
+        writeChanges(getFirestoreDb(), settings.workspaceId, changes).catch((error) => {
+            console.error('Error writing to Firestore', error);
+            setState('error');
+        });
+    };
+
+    // The current local version of a record, written again when it won a
+    // conflict. A record that is gone locally was deleted.
+    const getLocalChange = (key: FirestoreKey, id: string, version: SyncVersion): SyncChange => {
+        const record = (latest.current.data[key] as { id: string }[]).find((other) => other.id === id);
+        return { collection: key, id, record: (record || null) as SyncChange['record'], ...version };
+    };
+
+    const handleSnapshot = (key: FirestoreKey, remote: SyncChange[], snapshot: { fromServer: boolean; ids: string[] }) => {
+        const known = getVersions();
+        const apply: SyncChange[] = [];
+        const rewrite: SyncChange[] = [];
+        remote.forEach((change) => {
+            const version = known[versionKey(key, change.id)];
+            switch (resolveRemoteChange(version, change)) {
+                case 'apply':
+                    apply.push(change);
+                    break;
+                case 'keep':
+                    rewrite.push(getLocalChange(key, change.id, version));
+                    break;
+            }
+        });
+        if (snapshot.fromServer && latest.current.pendingUpload.includes(key)) {
+            const remoteIds = new Set(snapshot.ids);
+            const localOnly = (latest.current.data[key] as { id: string }[]).filter((record) => !remoteIds.has(record.id));
+            rewrite.push(...toSyncChanges({ [key]: { put: localOnly, delete: [] } }, getDeviceId(), INITIAL_MODIFIED_AT));
+            setPendingUpload((prev) => prev.filter((other) => other !== key));
+        }
+        if (apply.length > 0) {
+            rememberVersions(apply);
+            latest.current.applyRemoteChanges(groupChanges(apply));
+        }
+        write(rewrite);
+        if (snapshot.fromServer) setState('connected');
+    };
+
+    const enqueue = (changes: SyncChanges) => {
+        if (!isActive) return;
+        const subset = Object.fromEntries(FIRESTORE_KEYS.filter((key) => changes[key]).map((key) => [key, changes[key]])) as SyncChanges;
+        write(toSyncChanges(subset, getDeviceId()));
+    };
+
+    // Turning the mode on, or switching to another workspace, takes over what
+    // Firestore has and then uploads the records only this device has.
+    const configure = (next: FirestoreSettings) => {
+        const isNewTarget = next.enabled && (!settings.enabled || next.workspaceId !== settings.workspaceId);
+        setSettings(next);
+        if (isNewTarget) {
+            versions.current = {};
+            window.localStorage.removeItem(VERSIONS_KEY);
+            if (waiting.current) waiting.current = [];
+            setPendingUpload([...FIRESTORE_KEYS]);
+        }
+    };
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!isLoaded || !isActive) return;
+        setState('connecting');
+        let isCurrent = true;
+        let unsubscribers: (() => void)[] = [];
+        const connect = async () => {
+            const db = getFirestoreDb();
+            const uid = await signInDevice();
+            const membership = `${uid}/${settings.workspaceId}`;
+            if (window.localStorage.getItem(MEMBERSHIP_KEY) !== membership) {
+                await joinWorkspace(db, uid, settings.workspaceId, settings.joinCode);
+                window.localStorage.setItem(MEMBERSHIP_KEY, membership);
+            }
+            return db;
+        };
+        connect()
+            .then((db: Firestore) => {
+                if (!isCurrent) return;
+                const pending = waiting.current || [];
+                waiting.current = null;
+                write(pending);
+                unsubscribers = FIRESTORE_KEYS.map((key) => subscribeToCollection(
+                    db,
+                    settings.workspaceId,
+                    key,
+                    (changes, snapshot) => handleSnapshot(key, changes, snapshot),
+                    (error) => {
+                        console.error('Error listening to Firestore', error);
+                        setState('error');
+                    }
+                ));
+            })
+            .catch((error) => {
+                if (!isCurrent) return;
+                console.error('Error joining the Firestore workspace', error);
+                setState(error instanceof FirestoreError && error.code === 'permission-denied' ? 'denied' : 'error');
+            });
+        return () => {
+            isCurrent = false;
+            waiting.current ??= [];
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
+        };
+    }, [isLoaded, isActive, settings.workspaceId, settings.joinCode]);
+
+    const status: FirestoreState = !isAvailable ? 'unavailable'
+        : !isActive ? 'disabled'
+        : !isOnline && state !== 'error' && state !== 'denied' ? 'offline'
+        : state;
+
+    return { settings, configure, enqueue, status };
+}
@@ -11,11 +11,18 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, React.Disp
         if (typeof window === 'undefined') {
             return initialValue;
         }
+        const item = window.localStorage.getItem(key);
         try {
-            const item = window.localStorage.getItem(key);
             return item ? JSON.parse(item) : initialValue;
         } catch (error) {
+            // The initial value is written back below, so the unreadable value is
+            // first kept under a key of its own instead of being lost.
             console.error('Error reading from localStorage', error);
+            try {
+                window.localStorage.setItem(`quarantine:${key}:${new Date().toISOString()}`, item as string);
+            } catch (quarantineError) {
+                console.error('Error quarantining unreadable value', quarantineError);
+            }
             return initialValue;
         }
     };
@@ -35,5 +42,19 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, React.Disp
         }
     }, [key, value]);
 
+    // Another tab changed the value; the storage event only fires in the other tabs.
+    useEffect(() => {
+        const handleStorage = (event: StorageEvent) => {
+            if (event.storageArea !== window.localStorage || event.key !== key) return;
+            try {
+                setValue(event.newValue === null ? initialValue : JSON.parse(event.newValue));
+            } catch (error) {
+                console.error('Error reading from localStorage', error);
+            }
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, [key]);
+
     return [value, setValue];
 }
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+
+// Returns the current time and re-renders the caller every `intervalMs`,
+// which is what the live timers of running entries need.
+export function useNow(intervalMs = 1000, enabled = true) {
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        if (!enabled) return;
+        setNow(new Date());
+        const interval = setInterval(() => setNow(new Date()), intervalMs);
+        return () => clearInterval(interval);
+    }, [intervalMs, enabled]);
+
+    return now;
+}
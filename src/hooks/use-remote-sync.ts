@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef } from 'react';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import type { AppData } from '@/lib/backup';
+import { getDeviceId } from '@/lib/device';
+import {
+    DEFAULT_SYNC_SETTINGS,
+    INITIAL_MODIFIED_AT,
+    SYNC_KEYS,
+    SyncError,
+    addToOutbox,
+    groupChanges,
+    mergeRemoteChanges,
+    pullChanges,
+    pushChanges,
+    removeFromOutbox,
+    toSyncChanges,
+    type SyncChange,
+    type SyncChanges,
+    type SyncErrorReason,
+    type SyncKey,
+    type SyncSettings,
+} from '@/lib/remote-sync';
+import type { OpenedStorage } from '@/lib/storage';
+
+const SYNC_INTERVAL_MS = 30_000;
+// Changes made in quick succession are pushed together.
+const PUSH_DELAY_MS = 1_000;
+
+export type SyncState = 'disabled' | 'offline' | 'idle' | 'syncing' | 'error';
+
+export type SyncStatus = {
+    state: SyncState;
+    pending: number; // changes waiting in the outbox
+    lastSyncedAt: string | null; // ISO string
+    error: SyncErrorReason | null;
+};
+
+// The server's position after the last pull, for the endpoint it belongs to.
+type SyncCursor = { endpoint: string; cursor: string };
+
+// Syncs the collections with a server, see docs/sync-protocol.md. Changes are
+// queued in an outbox that survives reloads and is pushed whenever the device
+// is online; changes from other devices are pulled and handed to
+// `applyRemoteChanges`. The outbox can hold every record of the app, so it is
+// kept in the storage backend, and `onStorageError` is called when it cannot
+// be saved.
+export function useRemoteSync(
+    opened: OpenedStorage | null,
+    recordsLoaded: boolean,
+    applyRemoteChanges: (changes: SyncChanges) => void,
+    onStorageError: (error: unknown) => void
+) {
+    const [settings, setSettings] = useLocalStorage<SyncSettings>('syncSettings', DEFAULT_SYNC_SETTINGS);
+    const [outbox, setOutbox, outboxLoaded] = useStoredValue<SyncChange[]>(opened, 'syncOutbox', [], onStorageError);
+    const [cursor, setCursor, cursorLoaded] = useStoredValue<SyncCursor>(opened, 'syncCursor', { endpoint: '', cursor: '' }, onStorageError);
+    const isLoaded = recordsLoaded && outboxLoaded && cursorLoaded;
+    const [lastSyncedAt, setLastSyncedAt] = useLocalStorage<string | null>('syncLastSyncedAt', null);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [error, setError] = useState<SyncErrorReason | null>(null);
+    const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+    // Syncing runs across renders, so it reads the state from here.
+    const latest = useRef({ settings, outbox, cursor, applyRemoteChanges });
+    latest.current = { settings, outbox, cursor, applyRemoteChanges };
+    const running = useRef(false);
+    const pushTimer = useRef<ReturnType<typeof setTimeout>>();
+
+    // Applies what wins against the outbox, and drops the local changes that lost.
+    const applyMerged = (remote: SyncChange[], deviceId: string) => {
+        const { apply, outbox: pending } = mergeRemoteChanges(latest.current.outbox, remote, deviceId);
+        if (apply.length > 0) {
+            latest.current.applyRemoteChanges(groupChanges(apply));
+            setOutbox((prev) => mergeRemoteChanges(prev, apply, deviceId).outbox);
+        }
+        return pending;
+    };
+
+    // Resolves to whether the sync went through.
+    const syncNow = async () => {
+        const { settings: current, cursor: since } = latest.current;
+        if (!current.enabled || !current.endpoint || running.current || !navigator.onLine) return false;
+        running.current = true;
+        setIsSyncing(true);
+        const deviceId = getDeviceId();
+        try {
+            const pulled = await pullChanges(current, since.endpoint === current.endpoint ? since.cursor : '');
+            const pending = applyMerged(pulled.changes, deviceId);
+            setCursor({ endpoint: current.endpoint, cursor: pulled.cursor });
+            if (pending.length > 0) {
+                const { rejected } = await pushChanges(current, deviceId, pending);
+                setOutbox((prev) => removeFromOutbox(prev, pending));
+                applyMerged(rejected, deviceId);
+            }
+            setLastSyncedAt(new Date().toISOString());
+            setError(null);
+            return true;
+        } catch (syncError) {
+            console.error('Error syncing', syncError);
+            setError(syncError instanceof SyncError ? syncError.reason : 'network');
+            return false;
+        } finally {
+            running.current = false;
+            setIsSyncing(false);
+        }
+    };
+
+    const schedulePush = () => {
+        clearTimeout(pushTimer.current);
+        pushTimer.current = setTimeout(syncNow, PUSH_DELAY_MS);
+    };
+
+    // Queues local changes. Nothing is queued while sync is off; turning it on
+    // uploads everything anyway.
+    const enqueue = (changes: SyncChanges) => {
+        if (!settings.enabled) return;
+        const queued = toSyncChanges(changes, getDeviceId());
+        if (queued.length === 0) return;
+        setOutbox((prev) => addToOutbox(prev, queued));
+        schedulePush();
+    };
+
+    // Turning sync on, or pointing it at another server, uploads all records as
+    // they are and pulls everything the server has. Records uploaded this way
+    // lose against any change another device has synced. Turning sync off drops
+    // the changes still in the outbox; the settings offer to push them first.
+    const configure = (next: SyncSettings, data: Pick<AppData, SyncKey>) => {
+        const isNewTarget = next.enabled && (!settings.enabled || next.endpoint !== settings.endpoint);
+        setSettings(next);
+        if (!next.enabled) {
+            setOutbox([]);
+            return;
+        }
+        if (isNewTarget) {
+            const snapshot = Object.fromEntries(SYNC_KEYS.map((key) => [key, { put: data[key], delete: [] }])) as SyncChanges;
+            const initial = toSyncChanges(snapshot, getDeviceId(), INITIAL_MODIFIED_AT);
+            setOutbox((prev) => addToOutbox(initial, prev));
+            setCursor({ endpoint: next.endpoint, cursor: '' });
+            setError(null);
+        }
+        schedulePush();
+    };
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true);
+            syncNow();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!isLoaded || !settings.enabled) return;
+        syncNow();
+        const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+            clearTimeout(pushTimer.current);
+        };
+    }, [isLoaded, settings.enabled, settings.endpoint]);
+
+    const status: SyncStatus = {
+        state: !settings.enabled ? 'disabled' : !isOnline ? 'offline' : isSyncing ? 'syncing' : error ? 'error' : 'idle',
+        pending: outbox.length,
+        lastSyncedAt,
+        error,
+    };
+
+    return { settings, configure, enqueue, syncNow, status, isLoaded };
+}
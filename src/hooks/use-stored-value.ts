@@ -0,0 +1,54 @@
+import { useState, useEffect, useRef } from 'react';
+import { publishValue, subscribeToValue, type OpenedStorage } from '@/lib/storage';
+
+// Keeps a single value in state like useLocalStorage, but in the storage
+// backend, for values that can outgrow localStorage. The value is loaded once
+// the storage is open; `onWriteError` is called when saving it fails, e.g.
+// when the device is out of space.
+export function useStoredValue<T>(opened: OpenedStorage | null, key: string, initialValue: T, onWriteError: (error: unknown) => void) {
+    const [value, setValue] = useState<T>(initialValue);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // What the backend holds, so that loading or a change from another tab is
+    // not written back.
+    const persisted = useRef<T>(initialValue);
+    const reportError = useRef(onWriteError);
+    reportError.current = onWriteError;
+
+    useEffect(() => {
+        if (!opened) return;
+        let isCurrent = true;
+        opened.storage.loadValue(key)
+            .catch((error) => {
+                console.error('Error reading from storage', error);
+                return undefined;
+            })
+            .then((stored) => {
+                if (!isCurrent) return;
+                const loaded = stored === undefined ? initialValue : stored as T;
+                persisted.current = loaded;
+                setValue(loaded);
+                setIsLoaded(true);
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [opened, key]);
+
+    useEffect(() => {
+        if (!opened || !isLoaded || value === persisted.current) return;
+        persisted.current = value;
+        opened.storage.saveValue(key, value)
+            .then(() => publishValue(key, value))
+            .catch((error) => {
+                console.error('Error writing to storage', error);
+                reportError.current(error);
+            });
+    }, [opened, key, isLoaded, value]);
+
+    useEffect(() => subscribeToValue(key, (next) => {
+        persisted.current = next as T;
+        setValue(next as T);
+    }), [key]);
+
+    return [value, setValue, isLoaded] as const;
+}
@@ -0,0 +1,116 @@
+import { useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { applyChanges, type RecordChanges, type StoredRecord } from '@/lib/storage';
+import { HISTORY_KEYS, diffData, getRedoChanges, getUndoChanges, type CollectionChange, type HistoryData, type HistoryEntry, type HistoryKey } from '@/lib/history';
+
+export type CollectionSetters = { [K in HistoryKey]: Dispatch<SetStateAction<StoredRecord<K>[]>> };
+
+type History<A extends string> = {
+    undo: HistoryEntry<A>[];
+    redo: HistoryEntry<A>[];
+};
+
+const HISTORY_LIMIT = 50;
+
+// Keeps undo and redo stacks for the record collections. Mutations run
+// through `track` and use the returned setters; every update is then applied
+// to a working copy as well, so that the records an action changed are known
+// as soon as it returns.
+export function useUndoHistory<A extends string>(data: HistoryData, setters: CollectionSetters) {
+    const [history, setHistory] = useState<History<A>>({ undo: [], redo: [] });
+    const historyRef = useRef(history);
+    // The state as of the last update. It is ahead of `data` when several
+    // mutations run before the next render.
+    const latest = useRef(data);
+    latest.current = data;
+    const working = useRef<HistoryData | null>(null);
+
+    const updateHistory = (next: History<A>) => {
+        historyRef.current = next;
+        setHistory(next);
+    };
+
+    const setterFor = <K extends HistoryKey>(key: K): Dispatch<SetStateAction<StoredRecord<K>[]>> => (update) => {
+        if (working.current) {
+            const current = working.current[key] as StoredRecord<K>[];
+            working.current = { ...working.current, [key]: typeof update === 'function' ? update(current) : update };
+        }
+        (setters[key] as Dispatch<SetStateAction<StoredRecord<K>[]>>)(update);
+    };
+
+    const trackedSetters = Object.fromEntries(HISTORY_KEYS.map((key) => [key, setterFor(key)])) as CollectionSetters;
+
+    // Runs the updates and returns the state before and after them. Nested
+    // runs are part of the outer one.
+    const run = (update: () => void) => {
+        if (working.current) {
+            update();
+            return null;
+        }
+        const before = latest.current;
+        working.current = before;
+        try {
+            update();
+        } finally {
+            latest.current = working.current;
+            working.current = null;
+        }
+        return { before, after: latest.current };
+    };
+
+    // Runs a mutation and records what it changed. Mutations that change
+    // nothing, e.g. because they were refused, leave the history alone.
+    const track = <R>(action: A, mutate: () => R): { result: R; entry: HistoryEntry<A> | null } => {
+        let result!: R;
+        const states = run(() => {
+            result = mutate();
+        });
+        const change = states && diffData(states.before, states.after);
+        if (!change) return { result, entry: null };
+        const entry: HistoryEntry<A> = { id: crypto.randomUUID(), action, change };
+        updateHistory({ undo: [...historyRef.current.undo, entry].slice(-HISTORY_LIMIT), redo: [] });
+        return { result, entry };
+    };
+
+    const applyEntry = (entry: HistoryEntry<A>, getChanges: <K extends HistoryKey>(change: CollectionChange<K>) => RecordChanges<K>) => {
+        run(() => {
+            HISTORY_KEYS.forEach(<K extends HistoryKey>(key: K) => {
+                const change = entry.change[key] as CollectionChange<K> | undefined;
+                if (change) trackedSetters[key]((prev) => applyChanges(prev, getChanges(change)) as StoredRecord<K>[]);
+            });
+        });
+    };
+
+    // Undoes the last action. With an id, only when that action is still the
+    // last one, so that an old toast cannot undo something else.
+    const undo = (entryId?: string) => {
+        const entry = historyRef.current.undo.at(-1);
+        if (!entry || (entryId && entry.id !== entryId)) return null;
+        applyEntry(entry, getUndoChanges);
+        updateHistory({ undo: historyRef.current.undo.slice(0, -1), redo: [...historyRef.current.redo, entry] });
+        return entry;
+    };
+
+    // Like undo, an id only redoes that action.
+    const redo = (entryId?: string) => {
+        const entry = historyRef.current.redo.at(-1);
+        if (!entry || (entryId && entry.id !== entryId)) return null;
+        applyEntry(entry, getRedoChanges);
+        updateHistory({ undo: [...historyRef.current.undo, entry], redo: historyRef.current.redo.slice(0, -1) });
+        return entry;
+    };
+
+    // Forgets every action, for changes that cannot be undone.
+    const clear = () => updateHistory({ undo: [], redo: [] });
+
+    return {
+        setters: trackedSetters,
+        track,
+        undo,
+        redo,
+        clear,
+        undoEntry: history.undo.at(-1),
+        redoEntry: history.redo.at(-1),
+        // Also sees actions that ran since the last render.
+        getLastEntry: () => historyRef.current.undo.at(-1),
+    };
+}
@@ -0,0 +1,76 @@
+import { addDays, parseISO } from 'date-fns';
+import type { DataChange } from '@/lib/history';
+import type { AuditActor, AuditCollection, AuditFieldChange, AuditKind, AuditRecord } from '@/types';
+
+export const AUDITED_COLLECTIONS: AuditCollection[] = ['timeEntries', 'employees', 'locations'];
+export const AUDIT_KINDS: AuditKind[] = ['create', 'update', 'delete', 'restore', 'paymentStatus'];
+
+const PAYMENT_FIELDS = ['paid', 'amount'];
+// Logged as changed, without the hash.
+const SECRET_FIELDS = ['pin'];
+const SECRET_VALUE = '••••';
+
+const loggedValue = (field: string, value: unknown) => (SECRET_FIELDS.includes(field) && value !== undefined ? SECRET_VALUE : value);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Compares two versions of a record field by field. A missing version counts
+// as a record without fields, so a created record lists all its values as new.
+export function diffFields(before: object | undefined, after: object | undefined): AuditFieldChange[] {
+    const beforeValues = (before || {}) as Record<string, unknown>;
+    const afterValues = (after || {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])].filter((field) => field !== 'id');
+    return fields
+        .filter((field) => !isSameValue(beforeValues[field], afterValues[field]))
+        .map((field) => ({ field, before: loggedValue(field, beforeValues[field]), after: loggedValue(field, afterValues[field]) }));
+}
+
+// Turns what an action changed into audit records, one per record of an
+// audited collection. A record that comes back out of the trash is logged as
+// restored rather than created.
+export function buildAuditRecords(change: DataChange, action: string, actor: AuditActor, timestamp = new Date().toISOString()): AuditRecord[] {
+    const restoredIds = new Set(change.trash?.delete || []);
+    return AUDITED_COLLECTIONS.flatMap((collection) => {
+        const collectionChange = change[collection];
+        if (!collectionChange) return [];
+        const previousById = new Map<string, object>(collectionChange.previous.map((record) => [record.id, record]));
+        const record = (recordId: string, kind: AuditKind, changes: AuditFieldChange[]): AuditRecord => ({
+            id: crypto.randomUUID(),
+            timestamp,
+            collection,
+            recordId,
+            kind,
+            action,
+            actor,
+            changes,
+        });
+        const written = collectionChange.put.map((after) => {
+            const before = previousById.get(after.id);
+            const changes = diffFields(before, after);
+            if (!before) return record(after.id, restoredIds.has(after.id) ? 'restore' : 'create', changes);
+            const isPaymentChange = changes.some((c) => c.field === 'paid') && changes.every((c) => PAYMENT_FIELDS.includes(c.field));
+            return record(after.id, isPaymentChange ? 'paymentStatus' : 'update', changes);
+        });
+        const deleted = collectionChange.delete.map((id) => record(id, 'delete', diffFields(previousById.get(id), undefined)));
+        return [...written, ...deleted].filter((auditRecord) => auditRecord.changes.length > 0);
+    });
+}
+
+export type AuditFilter = {
+    collection?: AuditCollection;
+    kind?: AuditKind;
+    deviceId?: string;
+    from?: string; // yyyy-MM-dd
+    to?: string; // yyyy-MM-dd, inclusive
+};
+
+export function filterAuditRecords(records: AuditRecord[], filter: AuditFilter) {
+    const to = filter.to ? addDays(parseISO(filter.to), 1) : undefined;
+    return records.filter((record) =>
+        (!filter.collection || record.collection === filter.collection)
+        && (!filter.kind || record.kind === filter.kind)
+        && (!filter.deviceId || record.actor.deviceId === filter.deviceId)
+        && (!filter.from || parseISO(record.timestamp) >= parseISO(filter.from))
+        && (!to || parseISO(record.timestamp) < to)
+    );
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import packageJson from '../../package.json';
+import type { Adjustment, AuditRecord, ChainLink, CurrencySettings, Employee, Location, Payment, PayrollRun, TimeEntry, TrashItem } from '@/types';
+
+export const BACKUP_FORMAT = 'timemaster-backup';
+export const BACKUP_VERSION = 1;
+
+// Everything the app keeps on the device.
+export type AppData = {
+    timeEntries: TimeEntry[];
+    employees: Employee[];
+    locations: Location[];
+    payments: Payment[];
+    adjustments: Adjustment[];
+    payrollRuns: PayrollRun[];
+    trash: TrashItem[];
+    auditLog: AuditRecord[];
+    hashChain: ChainLink[];
+    currency: CurrencySettings;
+    language: string;
+};
+
+export type Backup = {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    appVersion: string;
+    exportedAt: string; // ISO string
+    data: AppData;
+};
+
+// Lists of records that are merged by id.
+export const RECORD_KEYS = ['employees', 'locations', 'timeEntries', 'payments', 'adjustments', 'payrollRuns', 'trash', 'auditLog', 'hashChain'] as const;
+export type RecordKey = typeof RECORD_KEYS[number];
+
+export type ImportMode = 'replace' | 'merge';
+
+const idSchema = z.string().min(1);
+const isoSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const payMethodSchema = z.enum(['cash', 'bankTransfer', 'other']);
+
+const timeEntrySchema = z.object({
+    id: idSchema,
+    employeeId: idSchema,
+    locationId: idSchema,
+    startTime: isoSchema,
+    endTime: isoSchema.optional(),
+    breaks: z.array(z.object({ startTime: isoSchema, endTime: isoSchema.optional() }).passthrough()).optional(),
+    breakMinutes: z.number().min(0).optional(),
+    paid: z.boolean(),
+    amount: z.number().optional(),
+}).passthrough();
+
+const employeeSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    payModel: z.enum(['hourly', 'daily', 'fixed']).optional(),
+    rate: z.number().optional(),
+    rateHistory: z.array(z.object({
+        id: idSchema,
+        effectiveFrom: z.string(),
+        payModel: z.enum(['hourly', 'daily', 'fixed']),
+        rate: z.number(),
+        locationId: z.string().optional(),
+    }).passthrough()).optional(),
+    pin: z.object({ salt: z.string(), hash: z.string() }).optional(),
+}).passthrough();
+
+const locationSchema = z.object({ id: idSchema, name: z.string() }).passthrough();
+
+// Schemas of single records, also used to check the stored data on startup.
+// Unknown fields are kept, so that a backup of a newer app version with extra
+// fields still restores what this version understands.
+export const recordSchemas = {
+    timeEntries: timeEntrySchema,
+    employees: employeeSchema,
+    locations: locationSchema,
+    payments: z.object({
+        id: idSchema,
+        employeeId: idSchema,
+        date: isoSchema,
+        amount: z.number(),
+        method: payMethodSchema,
+        note: z.string().optional(),
+        entryIds: z.array(z.string()),
+        adjustmentIds: z.array(z.string()).optional(),
+    }).passthrough(),
+    adjustments: z.object({
+        id: idSchema,
+        employeeId: idSchema,
+        date: isoSchema,
+        type: z.enum(['advance', 'fine', 'loanRepayment', 'other']),
+        amount: z.number(),
+        note: z.string().optional(),
+    }).passthrough(),
+    payrollRuns: z.object({
+        id: idSchema,
+        periodStart: z.string(),
+        periodEnd: z.string(),
+        confirmedAt: isoSchema,
+        method: payMethodSchema,
+        lines: z.array(z.object({
+            employeeId: idSchema,
+            employeeName: z.string(),
+            entryIds: z.array(z.string()),
+            netMinutes: z.number(),
+            earned: z.number(),
+            deductions: z.number().default(0),
+            adjustmentIds: z.array(z.string()).default([]),
+            amount: z.number(),
+            paymentId: z.string().optional(),
+        }).passthrough()),
+    }).passthrough(),
+    trash: z.discriminatedUnion('type', [
+        z.object({ id: idSchema, deletedAt: isoSchema, type: z.literal('timeEntry'), record: timeEntrySchema, paymentIds: z.array(z.string()) }).passthrough(),
+        z.object({ id: idSchema, deletedAt: isoSchema, type: z.literal('employee'), record: employeeSchema }).passthrough(),
+        z.object({ id: idSchema, deletedAt: isoSchema, type: z.literal('location'), record: locationSchema }).passthrough(),
+    ]),
+    auditLog: z.object({
+        id: idSchema,
+        timestamp: isoSchema,
+        collection: z.enum(['timeEntries', 'employees', 'locations']),
+        recordId: idSchema,
+        kind: z.enum(['create', 'update', 'delete', 'restore', 'paymentStatus']),
+        action: z.string(),
+        actor: z.object({ deviceId: z.string(), deviceName: z.string() }).passthrough(),
+        changes: z.array(z.object({ field: z.string(), before: z.unknown(), after: z.unknown() }).passthrough()),
+    }).passthrough(),
+    hashChain: z.object({
+        id: idSchema,
+        seq: z.number().int().min(1),
+        timestamp: isoSchema,
+        collection: z.enum(['timeEntries', 'payments']),
+        recordId: idSchema,
+        recordHash: z.string().nullable(),
+        prevRecordHash: z.string().optional(),
+        prevHash: z.string(),
+        hash: z.string(),
+    }).passthrough(),
+} satisfies Record<RecordKey, z.ZodTypeAny>;
+
+const dataSchema = z.object({
+    timeEntries: z.array(recordSchemas.timeEntries),
+    employees: z.array(recordSchemas.employees),
+    locations: z.array(recordSchemas.locations),
+    payments: z.array(recordSchemas.payments).default([]),
+    adjustments: z.array(recordSchemas.adjustments).default([]),
+    payrollRuns: z.array(recordSchemas.payrollRuns).default([]),
+    trash: z.array(recordSchemas.trash).default([]),
+    auditLog: z.array(recordSchemas.auditLog).default([]),
+    hashChain: z.array(recordSchemas.hashChain).default([]),
+    currency: z.object({
+        code: z.string().length(3),
+        decimals: z.number().int().min(0).max(4),
+        symbolPosition: z.enum(['before', 'after']),
+    }),
+    language: z.string(),
+});
+
+const backupSchema = z.object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.number().int().min(1),
+    appVersion: z.string(),
+    exportedAt: isoSchema,
+    data: dataSchema,
+});
+
+export function createBackup(data: AppData): Backup {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        appVersion: packageJson.version,
+        exportedAt: new Date().toISOString(),
+        data,
+    };
+}
+
+export type ParseBackupResult =
+    | { success: true; backup: Backup }
+    | { success: false; error: 'backupInvalidJson' | 'backupInvalidFormat' | 'backupNewerVersion' };
+
+// Checks a backup file before anything is imported. The error is a translation key.
+export function parseBackup(text: string): ParseBackupResult {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return { success: false, error: 'backupInvalidJson' };
+    }
+    const result = backupSchema.safeParse(json);
+    if (!result.success) {
+        return { success: false, error: 'backupInvalidFormat' };
+    }
+    if (result.data.version > BACKUP_VERSION) {
+        return { success: false, error: 'backupNewerVersion' };
+    }
+    return { success: true, backup: result.data as Backup };
+}
+
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]) {
+    const incomingIds = new Set(incoming.map((record) => record.id));
+    return [...current.filter((record) => !incomingIds.has(record.id)), ...incoming];
+}
+
+// Replace takes the backup as it is, settings included. Merge adds the records of
+// the backup to the current data; a record that exists in both is taken from the
+// backup, and the settings of this device are kept. The audit log is merged in
+// both modes, since it must never lose records. A hash chain cannot be merged
+// without breaking it, so each mode keeps the chain of the data it keeps.
+export function combineData(current: AppData, incoming: AppData, mode: ImportMode): AppData {
+    if (mode === 'replace') return { ...incoming, auditLog: mergeById(current.auditLog, incoming.auditLog) };
+    return {
+        ...current,
+        timeEntries: mergeById(current.timeEntries, incoming.timeEntries),
+        employees: mergeById(current.employees, incoming.employees),
+        locations: mergeById(current.locations, incoming.locations),
+        payments: mergeById(current.payments, incoming.payments),
+        adjustments: mergeById(current.adjustments, incoming.adjustments),
+        payrollRuns: mergeById(current.payrollRuns, incoming.payrollRuns),
+        trash: mergeById(current.trash, incoming.trash),
+        auditLog: mergeById(current.auditLog, incoming.auditLog),
+    };
+}
+
+export function countRecords(data: AppData): Record<RecordKey, number> {
+    return Object.fromEntries(RECORD_KEYS.map((key) => [key, data[key].length])) as Record<RecordKey, number>;
+}
@@ -0,0 +1,87 @@
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// Excel only detects UTF-8 when the file starts with a byte order mark; without
+// it, Arabic and German names come out garbled.
+export type CsvEncoding = 'utf-8-bom' | 'utf-8';
+
+// Spreadsheets run text that starts with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a value when it contains the delimiter, a quote or a line break. Text
+// that would be read as a formula gets a leading apostrophe, which Excel and
+// LibreOffice show as plain text. Numbers are written as they are, so that
+// negative amounts stay numbers.
+function escapeCsvValue(value: string | number, delimiter: string) {
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    if (text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+export function toCsv(rows: (string | number)[][], delimiter: string = ',') {
+    return rows.map((row) => row.map((value) => escapeCsvValue(value, delimiter)).join(delimiter)).join('\r\n');
+}
+
+// Reads CSV as written by spreadsheets: quoted values may contain the delimiter,
+// doubled quotes and line breaks. A leading byte order mark is ignored and empty
+// lines are skipped.
+export function parseCsv(text: string, delimiter: string) {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    row.push(value);
+    rows.push(row);
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Picks the delimiter that occurs most often in the first line.
+export function detectDelimiter(text: string): CsvDelimiter {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const candidates: CsvDelimiter[] = [',', ';', '\t'];
+    const counts = candidates.map((delimiter) => firstLine.split(delimiter).length);
+    return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+export function encodeCsv(content: string, encoding: CsvEncoding) {
+    return encoding === 'utf-8-bom' ? `\uFEFF${content}` : content;
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
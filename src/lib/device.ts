@@ -0,0 +1,27 @@
+const DEVICE_ID_KEY = 'deviceId';
+
+// A random id that tells this browser apart from other devices. It is kept in
+// localStorage next to the settings and created on first use.
+export function getDeviceId() {
+    let id = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        window.localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+}
+
+// A name to show until the user gives the device one.
+export function guessDeviceName() {
+    if (typeof navigator === 'undefined') return '';
+    const userAgent = navigator.userAgent;
+    const platforms: [RegExp, string][] = [
+        [/iPad/, 'iPad'],
+        [/iPhone/, 'iPhone'],
+        [/Android/, 'Android'],
+        [/Windows/, 'Windows'],
+        [/Mac OS X/, 'Mac'],
+        [/Linux/, 'Linux'],
+    ];
+    return platforms.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Browser';
+}
@@ -0,0 +1,65 @@
+import { getApps, initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, signInAnonymously, type Auth } from 'firebase/auth';
+import {
+    connectFirestoreEmulator,
+    initializeFirestore,
+    persistentLocalCache,
+    persistentMultipleTabManager,
+    type Firestore,
+} from 'firebase/firestore';
+
+// Set at build time, see docs/firestore.md. Without a project the Firestore
+// mode is not offered.
+const config = {
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+const EMULATOR_HOST = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST; // e.g. localhost:8080
+const AUTH_EMULATOR_HOST = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST; // e.g. localhost:9099
+
+let db: Firestore | null = null;
+let auth: Auth | null = null;
+
+export function isFirebaseConfigured() {
+    return !!config.projectId;
+}
+
+export function isUsingEmulator() {
+    return !!EMULATOR_HOST;
+}
+
+// Firestore with its offline cache in IndexedDB, shared by all open tabs.
+// Writes made offline are kept there and sent once the device is back online.
+export function getFirestoreDb() {
+    if (db) return db;
+    const app = getApp();
+    db = initializeFirestore(app, {
+        localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+        // Optional fields of records are undefined rather than missing.
+        ignoreUndefinedProperties: true,
+    });
+    if (EMULATOR_HOST) {
+        const [host, port] = EMULATOR_HOST.split(':');
+        connectFirestoreEmulator(db, host, Number(port) || 8080);
+    }
+    return db;
+}
+
+function getApp() {
+    return getApps()[0] || initializeApp(config);
+}
+
+// Signs the device in anonymously and returns its user id, which the rules
+// check workspace membership by. The sign-in is kept in IndexedDB, so after
+// the first time this works offline as well.
+export async function signInDevice() {
+    if (!auth) {
+        auth = getAuth(getApp());
+        if (AUTH_EMULATOR_HOST) connectAuthEmulator(auth, `http://${AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    }
+    await auth.authStateReady();
+    const user = auth.currentUser || (await signInAnonymously(auth)).user;
+    return user.uid;
+}
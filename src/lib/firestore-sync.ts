@@ -0,0 +1,89 @@
+import { FirestoreError, collection, doc, onSnapshot, setDoc, writeBatch, type Firestore } from 'firebase/firestore';
+import { isNewer, isValidChange, type SyncChange, type SyncVersion } from '@/lib/remote-sync';
+
+// The collections kept in Firestore. Everything else stays on the device.
+export const FIRESTORE_KEYS = ['employees', 'locations', 'timeEntries'] as const;
+export type FirestoreKey = typeof FIRESTORE_KEYS[number];
+
+export type FirestoreSettings = {
+    enabled: boolean;
+    workspaceId: string; // devices with the same workspace share their data
+    joinCode: string; // set by the first device, needed by every other one to join
+};
+
+export const DEFAULT_FIRESTORE_SETTINGS: FirestoreSettings = { enabled: false, workspaceId: '', joinCode: '' };
+
+// A record is stored as workspaces/{workspaceId}/{collection}/{id}. Deleted
+// records stay as a tombstone with `record: null`, so that a device that was
+// offline learns about the deletion and deletions take part in conflicts.
+type FirestoreRecord = Pick<SyncChange, 'record' | 'modifiedAt' | 'deviceId'>;
+
+// Firestore writes at most 500 documents per batch.
+const BATCH_SIZE = 500;
+
+const collectionRef = (db: Firestore, workspaceId: string, key: FirestoreKey) => collection(db, 'workspaces', workspaceId, key);
+
+// Makes the signed-in device a member of the workspace, which firestore.rules
+// requires for its records. A member is stored as
+// workspaces/{workspaceId}/members/{uid} with the join code of the workspace;
+// the first device creates the workspace with its code. Fails with
+// `permission-denied` when the code is wrong.
+export async function joinWorkspace(db: Firestore, uid: string, workspaceId: string, joinCode: string) {
+    const workspace = doc(db, 'workspaces', workspaceId);
+    const member = doc(workspace, 'members', uid);
+    try {
+        await setDoc(member, { joinCode });
+    } catch (error) {
+        if (!(error instanceof FirestoreError) || error.code !== 'permission-denied') throw error;
+        // The workspace does not exist yet, or the code is wrong. Creating
+        // the workspace fails for one that exists already.
+        const batch = writeBatch(db);
+        batch.set(workspace, { joinCode });
+        batch.set(member, { joinCode });
+        await batch.commit();
+    }
+}
+
+export const versionKey = (key: string, id: string) => `${key}:${id}`;
+
+// What to do with a record that changed in Firestore, given the version this
+// device last wrote or applied:
+// - apply: it is newer, take it over,
+// - keep: this device's version is newer but lost the race to the server,
+//   write it again,
+// - skip: it is the version this device has already.
+export function resolveRemoteChange(known: SyncVersion | undefined, remote: SyncVersion): 'apply' | 'keep' | 'skip' {
+    if (!known) return 'apply';
+    if (known.modifiedAt === remote.modifiedAt && known.deviceId === remote.deviceId) return 'skip';
+    return isNewer(remote, known) ? 'apply' : 'keep';
+}
+
+// Queues the changes in the offline cache; Firestore sends them whenever it
+// can. The returned promise only settles once the server has them.
+export function writeChanges(db: Firestore, workspaceId: string, changes: SyncChange[]) {
+    const commits: Promise<void>[] = [];
+    for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        changes.slice(i, i + BATCH_SIZE).forEach((change) => {
+            const data: FirestoreRecord = { record: change.record, modifiedAt: change.modifiedAt, deviceId: change.deviceId };
+            batch.set(doc(collectionRef(db, workspaceId, change.collection as FirestoreKey), change.id), data);
+        });
+        commits.push(batch.commit());
+    }
+    return Promise.all(commits);
+}
+
+type SnapshotHandler = (changes: SyncChange[], snapshot: { fromServer: boolean; ids: string[] }) => void;
+
+// Listens to one collection. Each snapshot hands over the records that
+// changed, leaving out this device's own writes that are still on their way,
+// and the ids of all records in the collection.
+export function subscribeToCollection(db: Firestore, workspaceId: string, key: FirestoreKey, onChanges: SnapshotHandler, onError: (error: Error) => void) {
+    return onSnapshot(collectionRef(db, workspaceId, key), (snapshot) => {
+        const changes = snapshot.docChanges()
+            .filter((change) => change.type !== 'removed' && !change.doc.metadata.hasPendingWrites)
+            .map((change) => ({ collection: key, id: change.doc.id, ...(change.doc.data() as FirestoreRecord) }))
+            .filter(isValidChange);
+        onChanges(changes, { fromServer: !snapshot.metadata.fromCache, ids: snapshot.docs.map((document) => document.id) });
+    }, onError);
+}
@@ -0,0 +1,178 @@
+import { sha256 } from '@/lib/sha256';
+import type { RecordChanges } from '@/lib/storage';
+import type { ChainCollection, ChainLink, Payment, TimeEntry } from '@/types';
+
+export const CHAIN_COLLECTIONS: ChainCollection[] = ['timeEntries', 'payments'];
+export const GENESIS_HASH = '0'.repeat(64);
+
+type ChainRecord = TimeEntry | Payment;
+type ChainData = { timeEntries: TimeEntry[]; payments: Payment[] };
+export type ChainChanges = { [K in ChainCollection]?: RecordChanges<K> };
+
+// A record is finalized once money has changed hands: a paid entry, or any
+// payment. Unpaid entries are still being edited and are not sealed.
+export function isFinalized(collection: ChainCollection, record: ChainRecord) {
+    return collection === 'payments' || (record as TimeEntry).paid === true;
+}
+
+// JSON with sorted keys and without undefined values, so that the same record
+// always hashes the same, whatever order its fields were written in.
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export function hashRecord(record: ChainRecord) {
+    return sha256(canonicalJson(record));
+}
+
+// The hash of a re-seal covers the version it replaces. Other links hash as
+// they did before re-seals were recorded.
+function hashLink(link: Omit<ChainLink, 'id' | 'hash'>) {
+    const fields = [link.seq, link.timestamp, link.collection, link.recordId, link.recordHash, link.prevHash];
+    return sha256(canonicalJson(link.prevRecordHash ? [...fields, link.prevRecordHash] : fields));
+}
+
+const chainKey = (collection: ChainCollection, recordId: string) => `${collection}:${recordId}`;
+
+// The last link of every record in the chain.
+function getLatestLinks(chain: ChainLink[]) {
+    return new Map(chain.map((link) => [chainKey(link.collection, link.recordId), link]));
+}
+
+export type SealItem = {
+    collection: ChainCollection;
+    recordId: string;
+    recordHash: string | null;
+    prevRecordHash?: string;
+};
+
+// A sealed record that is sealed again with other content keeps the hash of
+// the version it replaces, see getResealedLinks.
+const toSealItem = (collection: ChainCollection, record: ChainRecord, sealedHash: string | null | undefined): SealItem => {
+    const recordHash = hashRecord(record);
+    return sealedHash && sealedHash !== recordHash
+        ? { collection, recordId: record.id, recordHash, prevRecordHash: sealedHash }
+        : { collection, recordId: record.id, recordHash };
+};
+
+// What an action changed that has to go into the chain: finalized records that
+// were written, every later version of a record that is in the chain already,
+// and the deletion of sealed records.
+export function getSealItems(change: ChainChanges, chain: ChainLink[]): SealItem[] {
+    const latest = getLatestLinks(chain);
+    const isInChain = (collection: ChainCollection, id: string) => latest.has(chainKey(collection, id));
+    const isSealed = (collection: ChainCollection, id: string) => !!latest.get(chainKey(collection, id))?.recordHash;
+    return CHAIN_COLLECTIONS.flatMap((collection) => {
+        const collectionChange = change[collection];
+        if (!collectionChange) return [];
+        const written = (collectionChange.put as ChainRecord[])
+            .filter((record) => isFinalized(collection, record) || isInChain(collection, record.id))
+            .map((record) => toSealItem(collection, record, latest.get(chainKey(collection, record.id))?.recordHash));
+        const deleted = collectionChange.delete
+            .filter((id) => isSealed(collection, id))
+            .map((id) => ({ collection, recordId: id, recordHash: null }));
+        return [...written, ...deleted];
+    });
+}
+
+// Finalized records that have never been sealed, e.g. from before the mode was
+// turned on or from an import.
+export function getUnsealedItems(data: ChainData, chain: ChainLink[]): SealItem[] {
+    const latest = getLatestLinks(chain);
+    return CHAIN_COLLECTIONS.flatMap((collection) => (data[collection] as ChainRecord[])
+        .filter((record) => isFinalized(collection, record) && !latest.has(chainKey(collection, record.id)))
+        .map((record) => ({ collection, recordId: record.id, recordHash: hashRecord(record) }))
+    );
+}
+
+export function appendLinks(chain: ChainLink[], items: SealItem[], timestamp = new Date().toISOString()): ChainLink[] {
+    const links = [...chain];
+    items.forEach((item) => {
+        const last = links.at(-1);
+        const seq = (last?.seq ?? 0) + 1;
+        const link = { ...item, seq, timestamp, prevHash: last?.hash ?? GENESIS_HASH };
+        links.push({ id: `chain-${String(seq).padStart(10, '0')}`, ...link, hash: hashLink(link) });
+    });
+    return links;
+}
+
+export function getChainHead(chain: ChainLink[]) {
+    return chain.at(-1);
+}
+
+// Links that sealed other content over a sealed version of their record: an
+// edit after the record was finalized, made in the app or synced from another
+// device. Found from the chain itself, so that re-seals without
+// prevRecordHash show up as well.
+function getResealedLinks(chain: ChainLink[]) {
+    const sealed = new Map<string, string | null>();
+    return chain.filter((link) => {
+        const key = chainKey(link.collection, link.recordId);
+        const previous = sealed.get(key);
+        sealed.set(key, link.recordHash);
+        return !!previous && !!link.recordHash && previous !== link.recordHash;
+    });
+}
+
+// modified: the record differs from its last sealed version
+// missing: a sealed record is gone without its deletion being sealed
+// unsealed: a finalized record that is not in the chain
+export type ChainFlagReason = 'modified' | 'missing' | 'unsealed';
+
+export type ChainFlag = {
+    collection: ChainCollection;
+    recordId: string;
+    reason: ChainFlagReason;
+    sealedAt?: string; // ISO string of the last link of the record
+};
+
+export type ChainVerification = {
+    linkCount: number;
+    head?: ChainLink;
+    // Links whose hash does not match their contents or the link before them.
+    // Everything after the first one can no longer be trusted.
+    brokenLinks: ChainLink[];
+    flagged: ChainFlag[];
+    // Sealed records that were sealed again with other content, oldest first.
+    resealed: ChainLink[];
+};
+
+export function verifyChain(chain: ChainLink[], data: ChainData): ChainVerification {
+    const brokenLinks = chain.filter((link, index) => {
+        const prevHash = index === 0 ? GENESIS_HASH : chain[index - 1].hash;
+        return link.seq !== index + 1 || link.prevHash !== prevHash || link.hash !== hashLink(link);
+    });
+
+    const latest = getLatestLinks(chain);
+    const flagged: ChainFlag[] = [];
+    CHAIN_COLLECTIONS.forEach((collection) => {
+        const records = new Map((data[collection] as ChainRecord[]).map((record) => [record.id, record]));
+        records.forEach((record) => {
+            const link = latest.get(chainKey(collection, record.id));
+            if (!link) {
+                if (isFinalized(collection, record)) flagged.push({ collection, recordId: record.id, reason: 'unsealed' });
+            } else if (link.recordHash !== hashRecord(record)) {
+                flagged.push({ collection, recordId: record.id, reason: 'modified', sealedAt: link.timestamp });
+            }
+        });
+        latest.forEach((link) => {
+            if (link.collection === collection && link.recordHash && !records.has(link.recordId)) {
+                flagged.push({ collection, recordId: link.recordId, reason: 'missing', sealedAt: link.timestamp });
+            }
+        });
+    });
+
+    return { linkCount: chain.length, head: getChainHead(chain), brokenLinks, flagged, resealed: getResealedLinks(chain) };
+}
+
+// Finds the link a printed head hash belongs to, so that a report can be
+// checked against the chain it was printed from.
+export function findLinkByHash(chain: ChainLink[], hash: string) {
+    const wanted = hash.trim().toLowerCase();
+    return wanted ? chain.find((link) => link.hash === wanted) : undefined;
+}
@@ -0,0 +1,74 @@
+import { RECORD_KEYS, type RecordKey } from '@/lib/backup';
+import { diffRecords, type RecordChanges, type StoredData, type StoredRecord } from '@/lib/storage';
+
+// What an action changed in one collection: the changes that were written,
+// plus the versions of the changed and removed records from before.
+export type CollectionChange<K extends RecordKey> = RecordChanges<K> & {
+    previous: StoredRecord<K>[];
+};
+
+// The audit log and the hash chain are not part of the history: undoing a
+// change is logged as another change instead of removing the first one.
+type LogKey = 'auditLog' | 'hashChain';
+const LOG_KEYS: RecordKey[] = ['auditLog', 'hashChain'];
+export const HISTORY_KEYS = RECORD_KEYS.filter((key): key is Exclude<RecordKey, LogKey> => !LOG_KEYS.includes(key));
+export type HistoryKey = typeof HISTORY_KEYS[number];
+export type HistoryData = Pick<StoredData, HistoryKey>;
+
+export type DataChange = { [K in HistoryKey]?: CollectionChange<K> };
+
+export type HistoryEntry<A extends string> = {
+    id: string;
+    action: A;
+    change: DataChange;
+};
+
+const isSameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function diffCollection<K extends RecordKey>(before: StoredRecord<K>[], after: StoredRecord<K>[]): CollectionChange<K> | undefined {
+    const previousById = new Map(before.map((record) => [record.id, record]));
+    const changes = diffRecords(before, after);
+    // Updates often copy records without changing them, e.g. when unlinking
+    // payments; those are left out so that undo does not touch them.
+    const put = changes.put.filter((record) => !isSameRecord(record, previousById.get(record.id)));
+    if (put.length === 0 && changes.delete.length === 0) return undefined;
+    const touched = new Set([...put.map((record) => record.id), ...changes.delete]);
+    return { put, delete: changes.delete, previous: before.filter((record) => touched.has(record.id)) };
+}
+
+// Returns what changed between two states, or null when nothing did.
+export function diffData(before: HistoryData, after: HistoryData): DataChange | null {
+    const change: DataChange = {};
+    HISTORY_KEYS.forEach(<K extends HistoryKey>(key: K) => {
+        const collectionChange = diffCollection<K>(before[key], after[key]);
+        if (collectionChange) (change as Record<K, CollectionChange<K>>)[key] = collectionChange;
+    });
+    return Object.keys(change).length > 0 ? change : null;
+}
+
+// Puts back the previous versions and removes the records the action added.
+// Records the action did not touch stay as they are, including changes that
+// arrived from other tabs in the meantime.
+export function getUndoChanges<K extends RecordKey>(change: CollectionChange<K>): RecordChanges<K> {
+    return getRedoChanges(invertCollectionChange(change));
+}
+
+function invertCollectionChange<K extends RecordKey>(change: CollectionChange<K>): CollectionChange<K> {
+    const previousIds = new Set(change.previous.map((record) => record.id));
+    return {
+        put: change.previous,
+        delete: change.put.filter((record) => !previousIds.has(record.id)).map((record) => record.id),
+        previous: change.put,
+    };
+}
+
+// The change that undoing `change` makes.
+export function invertChange(change: DataChange): DataChange {
+    return Object.fromEntries(Object.entries(change).map(([key, collectionChange]) =>
+        [key, invertCollectionChange(collectionChange as CollectionChange<RecordKey>)]
+    )) as DataChange;
+}
+
+export function getRedoChanges<K extends RecordKey>(change: CollectionChange<K>): RecordChanges<K> {
+    return { put: change.put, delete: change.delete };
+}
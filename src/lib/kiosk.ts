@@ -0,0 +1,21 @@
+import type { Employee } from '@/types';
+
+// A kiosk device is set up for one location, where workers clock themselves
+// in and out with their own PIN. Kept per device, like the lock settings.
+export type KioskSettings = {
+    enabled: boolean;
+    locationId: string | null;
+};
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = { enabled: false, locationId: null };
+
+// How long a worker's PIN lets them clock in or out, once. As long as the
+// kiosk shows the step to do so.
+export const KIOSK_VERIFICATION_MS = 30 * 1000;
+
+// Only employees with a PIN can use the kiosk.
+export const getKioskEmployees = (employees: Employee[]) =>
+    employees.filter((employee) => employee.pin).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getInitials = (name: string) =>
+    name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join('');
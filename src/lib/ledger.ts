@@ -0,0 +1,114 @@
+import { parseISO } from 'date-fns';
+import type { Adjustment, Payment, TimeEntry } from '@/types';
+
+export type LedgerLine = {
+    id: string;
+    date: string; // ISO string
+    type: 'entry' | 'payment' | 'adjustment';
+    earned: number;
+    paid: number;
+    deducted: number;
+    balance: number; // running balance after this line, positive means still owed
+    entry?: TimeEntry;
+    payment?: Payment;
+    adjustment?: Adjustment;
+};
+
+// Entries that were marked as paid before the ledger existed carry their paid
+// amount on the entry itself. They count as a payment on the entry's date.
+function getLegacyPaidAmount(entry: TimeEntry, payments: Payment[]) {
+    if (!entry.paid || !entry.amount) return 0;
+    const isLinked = payments.some((payment) => payment.entryIds.includes(entry.id));
+    return isLinked ? 0 : entry.amount;
+}
+
+// What was paid for an entry: its share of every payment linked to it, split
+// by what the linked entries earned, or its legacy paid amount.
+export function getEntryPaidAmount(
+    entry: TimeEntry,
+    entries: TimeEntry[],
+    payments: Payment[],
+    getEarnedAmount: (entry: TimeEntry) => number | undefined
+) {
+    const linked = payments.filter((payment) => payment.entryIds.includes(entry.id));
+    if (linked.length === 0) return getLegacyPaidAmount(entry, payments);
+    const earnedById = new Map(entries.map((other) => [other.id, getEarnedAmount(other) || 0]));
+    return linked.reduce((acc, payment) => {
+        const earned = payment.entryIds.reduce((sum, id) => sum + (earnedById.get(id) || 0), 0);
+        // Without anything earned to weigh by, the entries share it equally.
+        const share = earned > 0 ? (earnedById.get(entry.id) || 0) / earned : 1 / payment.entryIds.length;
+        return acc + payment.amount * share;
+    }, 0);
+}
+
+// Builds the chronological ledger of an employee: every entry adds what it
+// earned, every payment, advance and deduction reduces the balance.
+export function buildLedger(
+    employeeId: string,
+    entries: TimeEntry[],
+    payments: Payment[],
+    adjustments: Adjustment[],
+    getEarnedAmount: (entry: TimeEntry) => number | undefined
+): LedgerLine[] {
+    const employeePayments = payments.filter((payment) => payment.employeeId === employeeId);
+    const lines: Omit<LedgerLine, 'balance'>[] = [
+        ...entries
+            .filter((entry) => entry.employeeId === employeeId)
+            .map((entry) => ({
+                id: entry.id,
+                date: entry.startTime,
+                type: 'entry' as const,
+                earned: getEarnedAmount(entry) || 0,
+                paid: getLegacyPaidAmount(entry, employeePayments),
+                deducted: 0,
+                entry,
+            })),
+        ...employeePayments.map((payment) => ({
+            id: payment.id,
+            date: payment.date,
+            type: 'payment' as const,
+            earned: 0,
+            paid: payment.amount,
+            deducted: 0,
+            payment,
+        })),
+        ...adjustments
+            .filter((adjustment) => adjustment.employeeId === employeeId)
+            .map((adjustment) => ({
+                id: adjustment.id,
+                date: adjustment.date,
+                type: 'adjustment' as const,
+                earned: 0,
+                paid: 0,
+                deducted: adjustment.amount,
+                adjustment,
+            })),
+    ].sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+
+    let balance = 0;
+    return lines.map((line) => {
+        balance += line.earned - line.paid - line.deducted;
+        return { ...line, balance };
+    });
+}
+
+export function getEmployeeBalance(
+    employeeId: string,
+    entries: TimeEntry[],
+    payments: Payment[],
+    adjustments: Adjustment[],
+    getEarnedAmount: (entry: TimeEntry) => number | undefined
+) {
+    const ledger = buildLedger(employeeId, entries, payments, adjustments, getEarnedAmount);
+    const earned = ledger.reduce((acc, line) => acc + line.earned, 0);
+    const paid = ledger.reduce((acc, line) => acc + line.paid, 0);
+    const deducted = ledger.reduce((acc, line) => acc + line.deducted, 0);
+    return { earned, paid, deducted, balance: earned - paid - deducted };
+}
+
+// Advances and deductions that no payment has netted yet. The next payment
+// for the employee subtracts them from the earned amount.
+export function getOutstandingAdjustments(employeeId: string, adjustments: Adjustment[], payments: Payment[]) {
+    const nettedIds = new Set(payments.flatMap((payment) => payment.adjustmentIds || []));
+    return adjustments.filter((adjustment) => adjustment.employeeId === employeeId && !nettedIds.has(adjustment.id));
+}
@@ -0,0 +1,61 @@
+import type { CurrencySettings } from '@/types';
+
+export const DEFAULT_CURRENCY: CurrencySettings = { code: 'IQD', decimals: 0, symbolPosition: 'after' };
+
+// Numbers always use Latin digits, like the dates formatted with date-fns.
+const numberLocales: Record<string, string> = {
+    en: 'en-US',
+    de: 'de-DE',
+    ar: 'ar-IQ-u-nu-latn',
+};
+
+function getNumberFormat(currency: CurrencySettings, language: string) {
+    return new Intl.NumberFormat(numberLocales[language] || language, {
+        style: 'currency',
+        currency: currency.code,
+        minimumFractionDigits: currency.decimals,
+        maximumFractionDigits: currency.decimals,
+    });
+}
+
+export function isValidCurrencyCode(code: string) {
+    try {
+        new Intl.NumberFormat('en', { style: 'currency', currency: code });
+        return /^[A-Z]{3}$/.test(code);
+    } catch {
+        return false;
+    }
+}
+
+// Direction marks that Intl adds for Arabic are left out. The text is placed by
+// the surrounding layout, and the PDF fonts cannot draw them.
+function getSymbol(parts: Intl.NumberFormatPart[], currency: CurrencySettings) {
+    const symbol = parts.find((part) => part.type === 'currency')?.value || currency.code;
+    return symbol.replace(/[\u200e\u200f\u061c]/g, '').trim();
+}
+
+export function getCurrencySymbol(currency: CurrencySettings, language: string) {
+    return getSymbol(getNumberFormat(currency, language).formatToParts(0), currency);
+}
+
+// Formats an amount in the configured currency. Intl picks the digits and
+// separators of the language, but the symbol goes where the settings say, not
+// where the locale would put it.
+export function formatMoney(amount: number, currency: CurrencySettings, language: string) {
+    const parts = getNumberFormat(currency, language).formatToParts(amount);
+    const sign = parts.some((part) => part.type === 'minusSign') ? '-' : '';
+    const number = parts
+        .filter((part) => !['currency', 'minusSign', 'literal'].includes(part.type))
+        .map((part) => part.value)
+        .join('');
+    const symbol = getSymbol(parts, currency);
+    if (currency.symbolPosition === 'after') return `${sign}${number} ${symbol}`;
+    // Symbols made of letters, like "IQD", need a space; signs like "€" do not.
+    const separator = /\p{L}{2,}/u.test(symbol) ? ' ' : '';
+    return `${sign}${symbol}${separator}${number}`;
+}
+
+// The step of amount inputs, so that e.g. cents can be entered for EUR.
+export function getAmountStep(currency: CurrencySettings) {
+    return 1 / 10 ** currency.decimals;
+}
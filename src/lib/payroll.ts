@@ -0,0 +1,66 @@
+import { format, parseISO } from 'date-fns';
+import type { Adjustment, Employee, Payment, PayrollLine, TimeEntry } from '@/types';
+import { getOutstandingAdjustments } from './ledger';
+import { getNetMinutes, isRunning } from './utils';
+
+// Whether an entry belongs to the period. Like everywhere else, an entry counts
+// toward the day it started on.
+export function isEntryInPeriod(entry: TimeEntry, periodStart: string, periodEnd: string) {
+    const day = format(parseISO(entry.startTime), 'yyyy-MM-dd');
+    return day >= periodStart && day <= periodEnd;
+}
+
+// Collects the unpaid, finished entries of the period per employee. Entries that
+// are still running are left for the next run, since their amount is not final.
+// Outstanding advances and deductions are netted against the earned amount,
+// oldest first and only as far as the earned amount covers them. The rest is
+// carried over to the next run.
+export function buildPayrollLines(
+    periodStart: string,
+    periodEnd: string,
+    employees: Employee[],
+    entries: TimeEntry[],
+    adjustments: Adjustment[],
+    payments: Payment[],
+    getEarnedAmount: (entry: TimeEntry) => number | undefined
+): PayrollLine[] {
+    return employees
+        .map((employee) => {
+            const employeeEntries = entries.filter((entry) =>
+                entry.employeeId === employee.id
+                && !entry.paid
+                && !isRunning(entry)
+                && isEntryInPeriod(entry, periodStart, periodEnd)
+            );
+            const earned = employeeEntries.reduce((acc, entry) => acc + (getEarnedAmount(entry) || 0), 0);
+            const netted: Adjustment[] = [];
+            let deductions = 0;
+            getOutstandingAdjustments(employee.id, adjustments, payments)
+                .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime())
+                .forEach((adjustment) => {
+                    if (deductions + adjustment.amount > earned) return;
+                    netted.push(adjustment);
+                    deductions += adjustment.amount;
+                });
+            return {
+                employeeId: employee.id,
+                employeeName: employee.name,
+                entryIds: employeeEntries.map((entry) => entry.id),
+                netMinutes: employeeEntries.reduce((acc, entry) => acc + getNetMinutes(entry), 0),
+                earned,
+                deductions,
+                adjustmentIds: netted.map((adjustment) => adjustment.id),
+                amount: earned - deductions,
+            };
+        })
+        .filter((line) => line.entryIds.length > 0);
+}
+
+export function getPayrollTotals(lines: PayrollLine[]) {
+    return {
+        netMinutes: lines.reduce((acc, line) => acc + line.netMinutes, 0),
+        earned: lines.reduce((acc, line) => acc + line.earned, 0),
+        deductions: lines.reduce((acc, line) => acc + line.deductions, 0),
+        amount: lines.reduce((acc, line) => acc + line.amount, 0),
+    };
+}
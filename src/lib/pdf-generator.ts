@@ -2,8 +2,10 @@
 // @ts-nocheck
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import type { Employee, TimeEntry } from '@/types';
-import { calculateDuration, calculateDurationInHours, formatDate, formatTime } from './utils';
+import type { Adjustment, ChainLink, Employee, Payment, PayrollRun, TimeEntry } from '@/types';
+import { getEntryPaidAmount } from './ledger';
+import { getPayrollTotals } from './payroll';
+import { calculateDuration, calculateDurationInHours, calculateGrossDuration, calculateGrossDurationInHours, formatDate, formatDateTime, formatMinutes, getBreakMinutes, formatEndTime, formatTime, isRunning } from './utils';
 
 // We have to use a type assertion here because the jspdf-autotable definitions are not up to date.
 type jsPDFWithAutoTable = jsPDF & {
@@ -15,6 +17,12 @@ interface TranslationHelpers {
     language: string;
     dir: 'ltr' | 'rtl';
     getLocationName: (id: string) => string;
+    getEarnedAmount: (entry: TimeEntry) => number | undefined;
+    payments: Payment[];
+    adjustments: Adjustment[];
+    balance: { earned: number; paid: number; deducted: number; balance: number };
+    formatMoney: (amount: number | undefined) => string;
+    chainHead?: ChainLink; // set in tamper-evident mode
 }
 
 // Function to fetch the font and convert it to Base64
@@ -36,11 +44,7 @@ async function getFontAsBase64(fontPath: string): Promise<string> {
     });
 }
 
-
-export const generatePdfReport = async (employee: Employee, entries: TimeEntry[], helpers: TranslationHelpers) => {
-    const { t, language, dir, getLocationName } = helpers;
-    const isRtl = dir === 'rtl';
-
+async function createDocument(isRtl: boolean) {
     const doc = new jsPDF() as jsPDFWithAutoTable;
 
     // Add Rubik font for Arabic support
@@ -58,6 +62,15 @@ export const generatePdfReport = async (employee: Employee, entries: TimeEntry[]
     } else {
         doc.setFont('helvetica');
     }
+
+    return doc;
+}
+
+export const generatePdfReport = async (employee: Employee, entries: TimeEntry[], helpers: TranslationHelpers) => {
+    const { t, language, dir, getLocationName, getEarnedAmount, payments, adjustments, balance, formatMoney, chainHead } = helpers;
+    const isRtl = dir === 'rtl';
+
+    const doc = await createDocument(isRtl);
     
     // Header
     doc.setFontSize(20);
@@ -84,8 +97,9 @@ export const generatePdfReport = async (employee: Employee, entries: TimeEntry[]
     }
     
     // Summary
-    const totalHours = entries.reduce((acc, entry) => acc + calculateDurationInHours(entry.startTime, entry.endTime), 0);
-    const totalPaid = entries.filter(e => e.paid).reduce((acc, entry) => acc + (entry.amount || 0), 0);
+    const totalHours = entries.reduce((acc, entry) => acc + calculateDurationInHours(entry), 0);
+    const totalGrossHours = entries.reduce((acc, entry) => acc + calculateGrossDurationInHours(entry), 0);
+    const totalEarned = entries.reduce((acc, entry) => acc + (getEarnedAmount(entry) || 0), 0);
     const totalUnpaidEntries = entries.filter(e => !e.paid).length;
     
     const summaryY = employeeDetailsY + 20;
@@ -98,8 +112,13 @@ export const generatePdfReport = async (employee: Employee, entries: TimeEntry[]
     }
     
     const summaryData = [
+        [t('totalGrossHours'), totalGrossHours.toFixed(2)],
+        [t('totalBreakHours'), (totalGrossHours - totalHours).toFixed(2)],
         [t('totalHours'), totalHours.toFixed(2)],
-        [t('totalPaid'), totalPaid.toLocaleString() + ' ' + t('currency')],
+        [t('totalEarned'), formatMoney(totalEarned)],
+        [t('totalPaid'), formatMoney(balance.paid)],
+        [t('totalDeductions'), formatMoney(balance.deducted)],
+        [t('balance'), formatMoney(balance.balance)],
         [t('totalUnpaid'), totalUnpaidEntries]
     ].map(row => isRtl ? row.slice().reverse() : row);
 
@@ -135,20 +154,31 @@ export const generatePdfReport = async (employee: Employee, entries: TimeEntry[]
         { header: t('date'), dataKey: 'date' },
         { header: t('location'), dataKey: 'location' },
         { header: t('time'), dataKey: 'time' },
-        { header: t('duration'), dataKey: 'duration' },
-        { header: t('amount'), dataKey: 'amount' },
+        { header: t('grossDuration'), dataKey: 'gross' },
+        { header: t('breaks'), dataKey: 'breaks' },
+        { header: t('netDuration'), dataKey: 'duration' },
+        { header: t('earned'), dataKey: 'earned' },
+        { header: t('amountPaid'), dataKey: 'amount' },
         { header: t('status'), dataKey: 'status' },
     ];
 
     const tableRows = entries.map(entry => {
-        const amountText = entry.amount ? entry.amount.toLocaleString() + ' ' + t('currency') : '-';
+        const earned = getEarnedAmount(entry);
+        const earnedText = formatMoney(earned);
+        const paidAmount = getEntryPaidAmount(entry, entries, payments, getEarnedAmount);
+        const amountText = paidAmount ? formatMoney(paidAmount) : '-';
         const row = {
             date: formatDate(entry.startTime, language),
             location: getLocationName(entry.locationId),
-            time: `${formatTime(entry.startTime, language)} - ${formatTime(entry.endTime, language)}`,
-            duration: calculateDuration(entry.startTime, entry.endTime),
+            // Running entries are reported up to the moment the report is generated.
+            // Night shifts are listed under their start date with the end marked "(+1)".
+            time: `${formatTime(entry.startTime, language)} - ${isRunning(entry) ? t('running') : formatEndTime(entry.startTime, entry.endTime, language)}`,
+            gross: calculateGrossDuration(entry),
+            breaks: formatMinutes(getBreakMinutes(entry)),
+            duration: calculateDuration(entry),
+            earned: earnedText,
             amount: amountText,
-            status: entry.paid ? t('paid') : t('unpaid'),
+            status: isRunning(entry) ? t('running') : entry.paid ? t('paid') : t('unpaid'),
         };
         return row;
     });
@@ -181,6 +211,237 @@ export const generatePdfReport = async (employee: Employee, entries: TimeEntry[]
         }
     });
 
+    // Payments Table
+    if (payments.length > 0) {
+        const paymentsY = doc.autoTable.previous.finalY + 15;
+        doc.setFontSize(14);
+        doc.text(t('payments'), (doc.internal.pageSize.width - doc.getTextWidth(t('payments'))) / 2, paymentsY);
+
+        const paymentColumns = [
+            { header: t('paymentDate'), dataKey: 'date' },
+            { header: t('paymentMethod'), dataKey: 'method' },
+            { header: t('note'), dataKey: 'note' },
+            { header: t('amount'), dataKey: 'amount' },
+        ];
+        const paymentRows = payments
+            .slice()
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+            .map(payment => ({
+                date: formatDate(payment.date, language),
+                method: t(`paymentMethod_${payment.method}`),
+                note: payment.note || '',
+                amount: formatMoney(payment.amount),
+            }));
+        const finalPaymentColumns = isRtl ? paymentColumns.slice().reverse() : paymentColumns;
+
+        doc.autoTable({
+            startY: paymentsY + 5,
+            head: [finalPaymentColumns.map(c => c.header)],
+            body: paymentRows.map(row => finalPaymentColumns.map(c => row[c.dataKey])),
+            theme: 'grid',
+            headStyles: {
+                fillColor: [41, 128, 185],
+                textColor: 255,
+                fontStyle: 'bold',
+                halign: isRtl ? 'right' : 'left',
+                font: isRtl ? 'Rubik' : 'helvetica',
+            },
+            bodyStyles: {
+                halign: isRtl ? 'right' : 'left',
+                font: isRtl ? 'Rubik' : 'helvetica',
+            },
+        });
+    }
+
+    // Advances and Deductions Table
+    if (adjustments.length > 0) {
+        const adjustmentsY = doc.autoTable.previous.finalY + 15;
+        doc.setFontSize(14);
+        doc.text(t('advancesAndDeductions'), (doc.internal.pageSize.width - doc.getTextWidth(t('advancesAndDeductions'))) / 2, adjustmentsY);
+
+        const adjustmentColumns = [
+            { header: t('date'), dataKey: 'date' },
+            { header: t('adjustmentType'), dataKey: 'type' },
+            { header: t('note'), dataKey: 'note' },
+            { header: t('amount'), dataKey: 'amount' },
+        ];
+        const adjustmentRows = adjustments
+            .slice()
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+            .map(adjustment => ({
+                date: formatDate(adjustment.date, language),
+                type: t(`adjustmentType_${adjustment.type}`),
+                note: adjustment.note || '',
+                amount: formatMoney(-adjustment.amount),
+            }));
+        const finalAdjustmentColumns = isRtl ? adjustmentColumns.slice().reverse() : adjustmentColumns;
+
+        doc.autoTable({
+            startY: adjustmentsY + 5,
+            head: [finalAdjustmentColumns.map(c => c.header)],
+            body: adjustmentRows.map(row => finalAdjustmentColumns.map(c => row[c.dataKey])),
+            theme: 'grid',
+            headStyles: {
+                fillColor: [41, 128, 185],
+                textColor: 255,
+                fontStyle: 'bold',
+                halign: isRtl ? 'right' : 'left',
+                font: isRtl ? 'Rubik' : 'helvetica',
+            },
+            bodyStyles: {
+                halign: isRtl ? 'right' : 'left',
+                font: isRtl ? 'Rubik' : 'helvetica',
+            },
+        });
+    }
+
+    // The head of the hash chain at the time of printing, so that the report can
+    // later be checked against the data it was made from.
+    if (chainHead) {
+        let chainY = doc.autoTable.previous.finalY + 15;
+        if (chainY > doc.internal.pageSize.height - 30) {
+            doc.addPage();
+            chainY = 20;
+        }
+        const x = isRtl ? doc.internal.pageSize.width - 14 : 14;
+        const align = isRtl ? 'right' : 'left';
+        doc.setFontSize(9);
+        const label = `${t('chainHead')}: #${chainHead.seq} · ${formatDateTime(chainHead.timestamp, language)}`;
+        doc.text(isRtl ? label.split(': ').reverse().join(' :') : label, x, chainY, { align });
+        doc.setFont('courier');
+        doc.text(chainHead.hash, x, chainY + 5, { align });
+        doc.setFont(isRtl ? 'Rubik' : 'helvetica');
+    }
+
     // Save the PDF
     doc.save(`Work-Report-${employee.name.replace(/\s/g, '-')}.pdf`);
 }
+
+interface PayrollSheetHelpers {
+    t: (key: string) => string;
+    language: string;
+    dir: 'ltr' | 'rtl';
+    formatMoney: (amount: number | undefined) => string;
+    adjustments: Adjustment[];
+}
+
+export const generatePayrollPdf = async (run: PayrollRun, helpers: PayrollSheetHelpers) => {
+    const { t, language, dir, formatMoney, adjustments } = helpers;
+    const isRtl = dir === 'rtl';
+
+    const doc = await createDocument(isRtl);
+
+    // Header
+    doc.setFontSize(20);
+    const title = t('payrollSheet');
+    doc.text(title, (doc.internal.pageSize.width - doc.getTextWidth(title)) / 2, 20);
+
+    doc.setFontSize(12);
+    const periodText = `${t('period')}: ${formatDate(run.periodStart, language)} - ${formatDate(run.periodEnd, language)}`;
+    const confirmedText = `${t('confirmedAt')}: ${formatDateTime(run.confirmedAt, language)} · ${t(`paymentMethod_${run.method}`)}`;
+    if (isRtl) {
+        doc.text(periodText, doc.internal.pageSize.width - 20, 35, { align: 'right' });
+        doc.text(confirmedText, doc.internal.pageSize.width - 20, 43, { align: 'right' });
+    } else {
+        doc.text(periodText, 20, 35);
+        doc.text(confirmedText, 20, 43);
+    }
+
+    const tableColumns = [
+        { header: t('employee'), dataKey: 'employee' },
+        { header: t('entries'), dataKey: 'entries' },
+        { header: t('netDuration'), dataKey: 'duration' },
+        { header: t('earned'), dataKey: 'earned' },
+        { header: t('deductions'), dataKey: 'deductions' },
+        { header: t('amountPaid'), dataKey: 'amount' },
+        { header: t('signature'), dataKey: 'signature' },
+    ];
+
+    const totals = getPayrollTotals(run.lines);
+    const adjustmentsById = new Map(adjustments.map((adjustment) => [adjustment.id, adjustment]));
+    // Each advance and deduction netted in a line gets its own row below it.
+    const adjustmentRows = (adjustmentIds: string[]) => adjustmentIds
+        .map((id) => adjustmentsById.get(id))
+        .filter((adjustment): adjustment is Adjustment => !!adjustment)
+        .map((adjustment) => ({
+            employee: [t(`adjustmentType_${adjustment.type}`), formatDate(adjustment.date, language), adjustment.note].filter(Boolean).join(' · '),
+            entries: '',
+            duration: '',
+            earned: '',
+            deductions: formatMoney(-adjustment.amount),
+            amount: '',
+            signature: '',
+            isAdjustment: true,
+        }));
+    const tableRows = [
+        ...run.lines.flatMap(line => [
+            {
+                employee: line.employeeName,
+                entries: line.entryIds.length,
+                duration: formatMinutes(line.netMinutes),
+                earned: formatMoney(line.earned),
+                deductions: line.deductions ? formatMoney(-line.deductions) : '-',
+                amount: formatMoney(line.amount),
+                signature: '',
+                isAdjustment: false,
+            },
+            ...adjustmentRows(line.adjustmentIds),
+        ]),
+        {
+            employee: t('total'),
+            entries: run.lines.reduce((acc, line) => acc + line.entryIds.length, 0),
+            duration: formatMinutes(totals.netMinutes),
+            earned: formatMoney(totals.earned),
+            deductions: totals.deductions ? formatMoney(-totals.deductions) : '-',
+            amount: formatMoney(totals.amount),
+            signature: '',
+            isAdjustment: false,
+        },
+    ];
+
+    const finalColumns = isRtl ? tableColumns.slice().reverse() : tableColumns;
+
+    doc.autoTable({
+        startY: 52,
+        head: [finalColumns.map(c => c.header)],
+        body: tableRows.map(row => finalColumns.map(c => row[c.dataKey])),
+        theme: 'grid',
+        headStyles: {
+            fillColor: [41, 128, 185],
+            textColor: 255,
+            fontStyle: 'bold',
+            halign: isRtl ? 'right' : 'left',
+            font: isRtl ? 'Rubik' : 'helvetica',
+        },
+        bodyStyles: {
+            halign: isRtl ? 'right' : 'left',
+            font: isRtl ? 'Rubik' : 'helvetica',
+            minCellHeight: 10,
+        },
+        didParseCell: (data) => {
+            // Bold total row
+            if (data.section === 'body' && data.row.index === tableRows.length - 1) {
+                data.cell.styles.fontStyle = 'bold';
+            }
+            // Smaller, indented adjustment rows under their employee
+            if (data.section === 'body' && tableRows[data.row.index].isAdjustment) {
+                data.cell.styles.fontSize = 8;
+                data.cell.styles.textColor = 100;
+                data.cell.styles.minCellHeight = 6;
+                if (data.column.index === finalColumns.findIndex(c => c.dataKey === 'employee')) {
+                    data.cell.styles.cellPadding = isRtl ? { right: 8, left: 2, top: 1.5, bottom: 1.5 } : { left: 8, right: 2, top: 1.5, bottom: 1.5 };
+                }
+            }
+        },
+        didDrawPage: (data) => {
+            // Footer
+            const pageCount = doc.internal.getNumberOfPages();
+            doc.setFontSize(10);
+            doc.setFont(isRtl ? 'Rubik' : 'helvetica');
+            const pageText = `${t('page')} ${data.pageNumber} ${t('of')} ${pageCount}`;
+            doc.text(pageText, doc.internal.pageSize.width / 2, doc.internal.pageSize.height - 10, { align: 'center' });
+        }
+    });
+
+    doc.save(`Payroll-${run.periodStart}-${run.periodEnd}.pdf`);
+}
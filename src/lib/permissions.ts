@@ -0,0 +1,62 @@
+import type { DataChange } from '@/lib/history';
+import type { TimeEntry, TrashItem, UserProfile, UserRole } from '@/types';
+
+export const USER_ROLES: UserRole[] = ['admin', 'foreman', 'worker'];
+
+// What the active profile may see and do. A device without profiles has a
+// single user who may do everything, as before profiles existed.
+export type Permissions = {
+    role: UserRole | null; // null without profiles
+    isAdmin: boolean;
+    canLogAnyTime: boolean; // false for workers
+    canSeeEmployee: (employeeId: string) => boolean;
+    canSeeLocation: (locationId: string) => boolean;
+    canSeeEntry: (entry: TimeEntry) => boolean;
+    canLogTime: (employeeId: string, locationId: string) => boolean;
+    canEditEntry: (entry: TimeEntry) => boolean;
+    canApplyChange: (change: DataChange) => boolean;
+};
+
+const isEntryTrashItem = (item: TrashItem): item is Extract<TrashItem, { type: 'timeEntry' }> => item.type === 'timeEntry';
+
+export function getPermissions(profile: UserProfile | undefined): Permissions {
+    const role = profile?.role ?? null;
+    const isAdmin = !profile || profile.role === 'admin';
+    const isForeman = profile?.role === 'foreman';
+
+    const canSeeEmployee = (employeeId: string) => isAdmin || !!profile?.employeeIds.includes(employeeId);
+    // Workers see the names of all locations, but only for their own entries.
+    const canSeeLocation = (locationId: string) => isAdmin || !isForeman || !!profile?.locationIds.includes(locationId);
+    const canSeeEntry = (entry: TimeEntry) => canSeeEmployee(entry.employeeId) && canSeeLocation(entry.locationId);
+    const canLogTime = (employeeId: string, locationId: string) => isAdmin || (isForeman && canSeeEmployee(employeeId) && canSeeLocation(locationId));
+    // Paid entries are settled; only an admin changes them.
+    const canEditEntry = (entry: TimeEntry) => isAdmin || (canLogTime(entry.employeeId, entry.locationId) && !entry.paid);
+
+    // Undo and redo are shared by everyone on the device. A foreman may only
+    // take back and repeat changes to entries they could have made themselves.
+    const canApplyChange = (change: DataChange) => {
+        if (isAdmin) return true;
+        if (!isForeman) return false;
+        const { timeEntries, trash, ...others } = change;
+        if (Object.keys(others).length > 0) return false;
+        const entries = timeEntries ? [...timeEntries.put, ...timeEntries.previous] : [];
+        const trashItems = trash ? [...trash.put, ...trash.previous] : [];
+        return entries.every(canEditEntry) && trashItems.every((item) => isEntryTrashItem(item) && canEditEntry(item.record));
+    };
+
+    return { role, isAdmin, canLogAnyTime: isAdmin || isForeman, canSeeEmployee, canSeeLocation, canSeeEntry, canLogTime, canEditEntry, canApplyChange };
+}
+
+// The profile used when none is chosen, or the chosen one was removed.
+export function getActiveProfile(profiles: UserProfile[], activeProfileId: string | null) {
+    return profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0];
+}
+
+// There is always an admin who can manage the profiles, unless profiles are
+// not used at all.
+export const hasAdmin = (profiles: UserProfile[]) => profiles.length === 0 || profiles.some((profile) => profile.role === 'admin');
+
+// Switching to an admin profile takes its PIN, see switchProfile. Once there
+// are foremen or workers, every admin needs one, or nobody could switch back.
+export const hasAdminPins = (profiles: UserProfile[]) =>
+    profiles.every((profile) => profile.role === 'admin') || profiles.every((profile) => profile.role !== 'admin' || profile.pin);
@@ -0,0 +1,82 @@
+import { sha256 } from '@/lib/sha256';
+import type { PinSecret, UserProfile } from '@/types';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+// off: no lock, app: one PIN for the device, profile: each profile has its
+// own PIN and unlocking picks the profile
+export type LockMode = 'off' | 'app' | 'profile';
+
+export type LockSettings = {
+    mode: LockMode;
+    idleMinutes: number; // locks again after this long without input
+    appPin: PinSecret | null;
+};
+
+export const LOCK_MODES: LockMode[] = ['off', 'app', 'profile'];
+export const IDLE_TIMEOUT_OPTIONS = [1, 2, 5, 10, 15, 30, 60];
+export const DEFAULT_LOCK_SETTINGS: LockSettings = { mode: 'off', idleMinutes: 5, appPin: null };
+
+// A short PIN cannot be kept secret by hashing alone; the hash only keeps it
+// from being read off the device's storage. The retry delay below is what
+// stops guessing.
+const hashPin = (pin: string, salt: string) => sha256(`${salt}:${pin}`);
+
+export function createPinSecret(pin: string): PinSecret {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const salt = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return { salt, hash: hashPin(pin, salt) };
+}
+
+export const verifyPin = (pin: string, secret: PinSecret) => hashPin(pin, secret.salt) === secret.hash;
+
+// The PIN that unlocks the app, or confirms a sensitive action, for a profile.
+export function getPinSecret(settings: LockSettings, profile: UserProfile | undefined) {
+    switch (settings.mode) {
+        case 'app':
+            return settings.appPin;
+        case 'profile':
+            return profile?.pin ?? null;
+        default:
+            return null;
+    }
+}
+
+// Wrong PINs are counted per PIN, under these keys, see PinThrottle.
+export const APP_PIN_KEY = 'app';
+export const profilePinKey = (profileId: string) => `profile:${profileId}`;
+export const employeePinKey = (employeeId: string) => `employee:${employeeId}`;
+
+// The key of the PIN returned by getPinSecret.
+export const getPinKey = (settings: LockSettings, profile: UserProfile | undefined) =>
+    settings.mode === 'profile' ? profilePinKey(profile?.id ?? '') : APP_PIN_KEY;
+
+// Profile PINs only work when every profile has one; a profile without a PIN
+// could not be unlocked.
+export const canUseProfilePins = (profiles: UserProfile[]) => profiles.length > 0 && profiles.every((profile) => profile.pin);
+
+// Kept for each PIN by its key. A correct PIN only resets its own count, so
+// that knowing one PIN does not give unlimited guesses at another.
+export type PinThrottle = {
+    failures: number; // wrong PINs in a row
+    blockedUntil: string | null; // ISO string
+};
+
+export const INITIAL_PIN_THROTTLE: PinThrottle = { failures: 0, blockedUntil: null };
+
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+
+// After three wrong PINs in a row, every further one blocks the next try for
+// 30 seconds, doubling up to 15 minutes.
+export function registerFailure(throttle: PinThrottle, now = new Date()): PinThrottle {
+    const failures = throttle.failures + 1;
+    if (failures < FREE_ATTEMPTS) return { failures, blockedUntil: null };
+    const delay = Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+    return { failures, blockedUntil: new Date(now.getTime() + delay).toISOString() };
+}
+
+export function getRemainingDelay(throttle: PinThrottle, now = new Date()) {
+    return throttle.blockedUntil ? Math.max(new Date(throttle.blockedUntil).getTime() - now.getTime(), 0) : 0;
+}
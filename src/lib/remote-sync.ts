@@ -0,0 +1,167 @@
+import { RECORD_KEYS, recordSchemas, type RecordKey } from '@/lib/backup';
+import type { RecordChanges, StoredRecord } from '@/lib/storage';
+
+// Everything but the hash chain is synced. The chain is the log of this
+// device and cannot be merged with the chain of another one.
+export const SYNC_KEYS = RECORD_KEYS.filter((key): key is Exclude<RecordKey, 'hashChain'> => key !== 'hashChain');
+export type SyncKey = typeof SYNC_KEYS[number];
+
+// One record as written on one device, the unit of the sync protocol, see
+// docs/sync-protocol.md.
+export type SyncChange = {
+    collection: SyncKey;
+    id: string;
+    record: StoredRecord<SyncKey> | null; // null when the record was deleted
+    modifiedAt: string; // ISO string
+    deviceId: string;
+};
+
+// Which version of a record a change is.
+export type SyncVersion = Pick<SyncChange, 'modifiedAt' | 'deviceId'>;
+
+export type SyncChanges = { [K in SyncKey]?: RecordChanges<K> };
+
+export type SyncSettings = {
+    enabled: boolean;
+    endpoint: string; // base URL, e.g. http://localhost:8787
+    token: string; // sent as a bearer token when set
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, endpoint: '', token: '' };
+
+// Records that were on a device before it started syncing count as older than
+// any synced change, so a device that joins takes the shared version.
+export const INITIAL_MODIFIED_AT = new Date(0).toISOString();
+
+const PUSH_BATCH_SIZE = 200;
+
+export type SyncErrorReason = 'network' | 'http' | 'invalidResponse';
+
+export class SyncError extends Error {
+    constructor(readonly reason: SyncErrorReason, readonly status?: number, options?: { cause?: unknown }) {
+        super(status ? `${reason} (HTTP ${status})` : reason, options);
+        this.name = 'SyncError';
+    }
+}
+
+const changeKey = (change: Pick<SyncChange, 'collection' | 'id'>) => `${change.collection}:${change.id}`;
+
+// Last write wins. Changes made at the same moment are ordered by device, so
+// that every device and the server pick the same one.
+export function isNewer(a: SyncVersion, b: SyncVersion) {
+    if (a.modifiedAt !== b.modifiedAt) return a.modifiedAt > b.modifiedAt;
+    return a.deviceId > b.deviceId;
+}
+
+export function toSyncChanges(changes: SyncChanges, deviceId: string, modifiedAt = new Date().toISOString()): SyncChange[] {
+    return SYNC_KEYS.flatMap((collection) => {
+        const collectionChanges = changes[collection] as RecordChanges<SyncKey> | undefined;
+        if (!collectionChanges) return [];
+        return [
+            ...collectionChanges.put.map((record) => ({ collection, id: record.id, record, modifiedAt, deviceId })),
+            ...collectionChanges.delete.map((id) => ({ collection, id, record: null, modifiedAt, deviceId })),
+        ];
+    });
+}
+
+export function groupChanges(changes: SyncChange[]): SyncChanges {
+    const grouped: Partial<Record<SyncKey, RecordChanges<SyncKey>>> = {};
+    changes.forEach((change) => {
+        const collectionChanges = grouped[change.collection] ??= { put: [], delete: [] };
+        if (change.record) collectionChanges.put.push(change.record);
+        else collectionChanges.delete.push(change.id);
+    });
+    return grouped as SyncChanges;
+}
+
+// Only the latest change of a record is kept, so the outbox never holds more
+// than one change per record however long the device stays offline.
+export function addToOutbox(outbox: SyncChange[], changes: SyncChange[]): SyncChange[] {
+    const replaced = new Set(changes.map(changeKey));
+    return [...outbox.filter((change) => !replaced.has(changeKey(change))), ...changes];
+}
+
+// Removes the pushed changes, but not the ones that were made again while
+// they were being pushed.
+export function removeFromOutbox(outbox: SyncChange[], pushed: SyncChange[]): SyncChange[] {
+    const pushedAt = new Map(pushed.map((change) => [changeKey(change), change.modifiedAt]));
+    return outbox.filter((change) => pushedAt.get(changeKey(change)) !== change.modifiedAt);
+}
+
+export const isValidChange = (change: SyncChange) =>
+    SYNC_KEYS.includes(change.collection)
+    && (change.record === null || (recordSchemas[change.collection].safeParse(change.record).success && change.record.id === change.id));
+
+// Decides record by record which pulled changes apply: a remote change wins
+// unless this device has a newer change of the same record waiting to be
+// pushed. Local changes that lost are dropped from the outbox.
+export function mergeRemoteChanges(outbox: SyncChange[], remote: SyncChange[], deviceId: string) {
+    const pending = new Map(outbox.map((change) => [changeKey(change), change]));
+    const apply: SyncChange[] = [];
+    remote
+        .filter((change) => change.deviceId !== deviceId && isValidChange(change))
+        .forEach((change) => {
+            const local = pending.get(changeKey(change));
+            if (local && isNewer(local, change)) return;
+            pending.delete(changeKey(change));
+            apply.push(change);
+        });
+    return { apply, outbox: outbox.filter((change) => pending.get(changeKey(change)) === change) };
+}
+
+async function request<T>(settings: SyncSettings, path: string, init?: RequestInit): Promise<T> {
+    const url = `${settings.endpoint.replace(/\/+$/, '')}${path}`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, headers });
+    } catch (error) {
+        throw new SyncError('network', undefined, { cause: error });
+    }
+    if (!response.ok) {
+        throw new SyncError('http', response.status);
+    }
+    try {
+        return await response.json();
+    } catch (error) {
+        throw new SyncError('invalidResponse', response.status, { cause: error });
+    }
+}
+
+type PullResponse = { changes: SyncChange[]; cursor: string; hasMore?: boolean };
+
+// Fetches every change the server stored after `cursor`, page by page.
+export async function pullChanges(settings: SyncSettings, cursor: string) {
+    const changes: SyncChange[] = [];
+    let next = cursor;
+    for (;;) {
+        const page = await request<PullResponse>(settings, `/changes?since=${encodeURIComponent(next)}`);
+        if (!Array.isArray(page.changes) || typeof page.cursor !== 'string') {
+            throw new SyncError('invalidResponse');
+        }
+        changes.push(...page.changes);
+        next = page.cursor;
+        if (!page.hasMore) break;
+    }
+    return { changes, cursor: next };
+}
+
+type PushResponse = { rejected: SyncChange[] };
+
+// Sends changes in batches. The server keeps a newer version of a record it
+// already has and returns it as rejected, to be applied here instead.
+export async function pushChanges(settings: SyncSettings, deviceId: string, changes: SyncChange[]) {
+    const rejected: SyncChange[] = [];
+    for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+        const result = await request<PushResponse>(settings, '/push', {
+            method: 'POST',
+            body: JSON.stringify({ deviceId, changes: changes.slice(i, i + PUSH_BATCH_SIZE) }),
+        });
+        if (!Array.isArray(result.rejected)) {
+            throw new SyncError('invalidResponse');
+        }
+        rejected.push(...result.rejected);
+    }
+    return { rejected: rejected.filter(isValidChange) };
+}
@@ -0,0 +1,50 @@
+import type { Backup, RecordKey } from '@/lib/backup';
+
+export type MigrationErrorReason = 'newerVersion' | 'migrationFailed' | 'loadFailed';
+
+// Stops the app from starting on data it cannot read. `backup` holds the data as
+// it was before the failed step, so that it can be downloaded from the error screen.
+export class MigrationError extends Error {
+    constructor(
+        readonly reason: MigrationErrorReason,
+        readonly version: number,
+        readonly backup?: Backup,
+        options?: { cause?: unknown }
+    ) {
+        super(`${reason} (schema version ${version})`, options);
+        this.name = 'MigrationError';
+    }
+}
+
+// Thrown by a backend when a stored value is not valid JSON. `raw` is the value
+// as it was found, for quarantine and salvage.
+export class UnreadableValueError extends Error {
+    constructor(readonly collection: RecordKey, readonly raw: string, options?: { cause?: unknown }) {
+        super(`Stored ${collection} are not valid JSON`, options);
+        this.name = 'UnreadableValueError';
+    }
+}
+
+export type CollectionProblem = {
+    collection: RecordKey;
+    unreadable: boolean; // the stored value could not be parsed at all
+    valid: number;
+    invalid: number;
+};
+
+// Some stored data is damaged. Its raw value has already been quarantined;
+// nothing is written until the user decides. `salvage` keeps the valid records
+// and drops the rest.
+export class CorruptDataError extends Error {
+    constructor(
+        readonly problems: CollectionProblem[],
+        // The damaged collections as they were found.
+        readonly raw: Partial<Record<RecordKey, unknown>>,
+        readonly salvage: () => Promise<void>
+    ) {
+        super(`Stored data is damaged: ${problems.map((problem) => problem.collection).join(', ')}`);
+        this.name = 'CorruptDataError';
+    }
+}
+
+export type StorageError = MigrationError | CorruptDataError;
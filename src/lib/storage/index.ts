@@ -0,0 +1,133 @@
+import { RECORD_KEYS, type AppData, type RecordKey } from '@/lib/backup';
+import { CorruptDataError, MigrationError, UnreadableValueError, type CollectionProblem } from './errors';
+import { createIndexedDbBackend, migrateFromLocalStorage, openDatabase } from './indexed-db';
+import { createLocalStorageBackend } from './local-storage';
+import { SCHEMA_VERSION, runMigrations } from './migrations';
+import { salvageJsonArray, splitStoredRecords, splitValidRecords } from './validation';
+import type { RecordChanges, StorageBackend, StoredData, StoredRecord } from './types';
+
+export type { RecordChanges, StorageBackend, StoredData, StoredRecord, TimeEntryQuery } from './types';
+export { CorruptDataError, MigrationError, type CollectionProblem, type MigrationErrorReason, type StorageError } from './errors';
+export { SCHEMA_VERSION } from './migrations';
+export { applyChanges, publishChanges, publishValue, subscribeToChanges, subscribeToValue } from './sync';
+
+// Opens IndexedDB and moves data from localStorage into it on the first load.
+// If IndexedDB is not available or fails, the app keeps working on localStorage.
+async function openBackend(): Promise<StorageBackend> {
+    if (typeof indexedDB === 'undefined') {
+        return createLocalStorageBackend();
+    }
+    try {
+        const db = await openDatabase();
+        await migrateFromLocalStorage(db);
+        return createIndexedDbBackend(db);
+    } catch (error) {
+        console.error('Error opening IndexedDB, falling back to localStorage', error);
+        return createLocalStorageBackend();
+    }
+}
+
+export type OpenedStorage = {
+    storage: StorageBackend;
+    data: StoredData;
+};
+
+type Settings = Pick<AppData, 'currency' | 'language'>;
+
+// Opens the backend, checks every collection and brings the data up to the
+// current schema version. The app must not start when this throws, since
+// saving anything would overwrite the data:
+// - a MigrationError when the data cannot be migrated,
+// - a CorruptDataError when some of it is damaged. The raw values of damaged
+//   collections are quarantined first, and nothing is written until the user
+//   chooses to salvage the valid records.
+export async function openStorage(settings: Settings): Promise<OpenedStorage> {
+    const storage = await openBackend();
+    const storedVersion = await storage.getSchemaVersion();
+    const raw = {} as Record<RecordKey, unknown>;
+    const problems: CollectionProblem[] = [];
+    const data = {} as StoredData;
+
+    for (const collection of RECORD_KEYS) {
+        let value: unknown;
+        let unreadable = false;
+        try {
+            value = await storage.load(collection);
+        } catch (error) {
+            if (!(error instanceof UnreadableValueError)) {
+                throw new MigrationError('loadFailed', storedVersion, undefined, { cause: error });
+            }
+            raw[collection] = error.raw;
+            value = salvageJsonArray(error.raw);
+            unreadable = true;
+        }
+        raw[collection] ??= value;
+        const { records, invalid } = splitStoredRecords(value);
+        (data as Record<RecordKey, unknown[]>)[collection] = records;
+        if (unreadable || invalid > 0) {
+            problems.push({ collection, unreadable, valid: records.length, invalid });
+        }
+    }
+
+    const migrated = await runMigrations(storage, data, storedVersion, settings);
+
+    for (const collection of RECORD_KEYS) {
+        const { valid, invalid } = splitValidRecords(collection, migrated[collection]);
+        (migrated as Record<RecordKey, unknown[]>)[collection] = valid;
+        const problem = problems.find((p) => p.collection === collection);
+        if (problem) {
+            problem.valid = valid.length;
+            problem.invalid += invalid;
+        } else if (invalid > 0) {
+            problems.push({ collection, unreadable: false, valid: valid.length, invalid });
+        }
+    }
+
+    if (problems.length > 0) {
+        for (const problem of problems) {
+            await storage.quarantine(problem.collection, raw[problem.collection]);
+        }
+        const damaged = Object.fromEntries(problems.map((problem) => [problem.collection, raw[problem.collection]]));
+        throw new CorruptDataError(problems, damaged, () => storage.replaceAll(migrated, SCHEMA_VERSION));
+    }
+    if (storedVersion !== SCHEMA_VERSION) {
+        await storage.replaceAll(migrated, SCHEMA_VERSION);
+    }
+    return { storage, data: migrated };
+}
+
+// Records are never changed in place, so a record whose object differs from
+// before was added or updated.
+export function diffRecords<K extends RecordKey>(prev: StoredRecord<K>[], next: StoredRecord<K>[]): RecordChanges<K> {
+    const prevById = new Map(prev.map((record) => [record.id, record]));
+    const nextIds = new Set(next.map((record) => record.id));
+    return {
+        put: next.filter((record) => prevById.get(record.id) !== record),
+        delete: prev.filter((record) => !nextIds.has(record.id)).map((record) => record.id),
+    };
+}
+
+// Records come back from IndexedDB ordered by id, so each collection is put
+// back into the order the app keeps it in.
+export function sortLoadedRecords<K extends RecordKey>(collection: K, records: StoredRecord<K>[]): StoredRecord<K>[] {
+    const byField = (field: string, direction: 1 | -1) => [...records].sort((a, b) =>
+        direction * String((a as Record<string, unknown>)[field]).localeCompare(String((b as Record<string, unknown>)[field]))
+    );
+    switch (collection) {
+        case 'timeEntries':
+            return byField('startTime', -1);
+        case 'payrollRuns':
+            return byField('confirmedAt', -1);
+        case 'trash':
+            return byField('deletedAt', -1);
+        case 'auditLog':
+            return byField('timestamp', -1);
+        case 'hashChain':
+            return byField('id', 1);
+        case 'payments':
+        case 'adjustments':
+            return byField('date', 1);
+        default:
+            return byField('name', 1);
+    }
+}
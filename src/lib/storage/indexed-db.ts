@@ -0,0 +1,170 @@
+import { RECORD_KEYS, type Backup, type RecordKey } from '@/lib/backup';
+import type { TimeEntry } from '@/types';
+import { readLegacyCollection, readLegacySchemaVersion, readLegacyValue, removeLegacyData } from './local-storage';
+import type { RecordChanges, StorageBackend, StoredData, TimeEntryQuery } from './types';
+
+const DB_NAME = 'timemaster';
+// Version 2 added the trash store, version 3 the audit log and version 4 the
+// hash chain. Stores that are missing are created on upgrade, so existing data
+// stays where it is.
+const DB_VERSION = 4;
+const META_STORE = 'meta';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Every collection is an object store keyed by record id. Compound indexes
+// start with the employee or location, so that a date range of one employee
+// is a single index lookup.
+const INDEXES: Partial<Record<RecordKey, Record<string, string | string[]>>> = {
+    timeEntries: {
+        startTime: 'startTime',
+        employeeId: 'employeeId',
+        locationId: 'locationId',
+        employeeId_startTime: ['employeeId', 'startTime'],
+        locationId_startTime: ['locationId', 'startTime'],
+    },
+    payments: { employeeId: 'employeeId', date: 'date' },
+    adjustments: { employeeId: 'employeeId', date: 'date' },
+    payrollRuns: { periodStart: 'periodStart' },
+    trash: { deletedAt: 'deletedAt' },
+    auditLog: { timestamp: 'timestamp', recordId: 'recordId' },
+    hashChain: { recordId: 'recordId' },
+};
+
+function toPromise<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export function openDatabase() {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        RECORD_KEYS.forEach((collection) => {
+            if (db.objectStoreNames.contains(collection)) return;
+            const store = db.createObjectStore(collection, { keyPath: 'id' });
+            Object.entries(INDEXES[collection] || {}).forEach(([name, keyPath]) => store.createIndex(name, keyPath));
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+        }
+    };
+    return toPromise(request);
+}
+
+// Copies the arrays the app used to keep in localStorage, and the schema
+// version they are in, into the database, in one transaction. The old keys are removed only once the copy is committed,
+// so an interrupted migration simply runs again on the next load. A damaged
+// value aborts the whole copy; the app then stays on localStorage, where the
+// damage is reported and nothing is removed.
+export async function migrateFromLocalStorage(db: IDBDatabase) {
+    const migrated = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).get(MIGRATED_KEY));
+    if (migrated) return;
+
+    const transaction = db.transaction([...RECORD_KEYS, META_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    try {
+        RECORD_KEYS.forEach((collection) => {
+            const records = readLegacyCollection(collection) || [];
+            if (!Array.isArray(records)) throw new Error(`Stored ${collection} are not a list`);
+            const store = transaction.objectStore(collection);
+            records.forEach((record) => store.put(record));
+        });
+        const schemaVersion = readLegacySchemaVersion();
+        if (schemaVersion > 0) transaction.objectStore(META_STORE).put(schemaVersion, SCHEMA_VERSION_KEY);
+        transaction.objectStore(META_STORE).put(new Date().toISOString(), MIGRATED_KEY);
+    } catch (error) {
+        transaction.abort();
+        done.catch(() => undefined);
+        throw error;
+    }
+    await done;
+    removeLegacyData();
+}
+
+export function createIndexedDbBackend(db: IDBDatabase): StorageBackend {
+    return {
+        name: 'indexedDb',
+        load(collection) {
+            return toPromise(db.transaction(collection).objectStore(collection).getAll());
+        },
+        async write<K extends RecordKey>(collection: K, changes: RecordChanges<K>) {
+            const transaction = db.transaction(collection, 'readwrite');
+            const store = transaction.objectStore(collection);
+            changes.delete.forEach((id) => store.delete(id));
+            changes.put.forEach((record) => store.put(record));
+            await transactionDone(transaction);
+        },
+        async queryTimeEntries(query: TimeEntryQuery) {
+            const store = db.transaction('timeEntries').objectStore('timeEntries');
+            const from = query.from || '';
+            // Above every ISO date string.
+            const to = query.to || '\uffff';
+            let entries: TimeEntry[];
+            if (query.employeeId) {
+                const range = IDBKeyRange.bound([query.employeeId, from], [query.employeeId, to], false, true);
+                entries = await toPromise(store.index('employeeId_startTime').getAll(range));
+            } else if (query.locationId) {
+                const range = IDBKeyRange.bound([query.locationId, from], [query.locationId, to], false, true);
+                entries = await toPromise(store.index('locationId_startTime').getAll(range));
+            } else {
+                entries = await toPromise(store.index('startTime').getAll(IDBKeyRange.bound(from, to, false, true)));
+            }
+            return entries.filter((entry) => !query.locationId || entry.locationId === query.locationId);
+        },
+        async getSchemaVersion() {
+            const version = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).get(SCHEMA_VERSION_KEY));
+            return typeof version === 'number' ? version : 0;
+        },
+        async replaceAll(data: StoredData, schemaVersion: number) {
+            const transaction = db.transaction([...RECORD_KEYS, META_STORE], 'readwrite');
+            const done = transactionDone(transaction);
+            try {
+                RECORD_KEYS.forEach((collection) => {
+                    const store = transaction.objectStore(collection);
+                    store.clear();
+                    data[collection].forEach((record) => store.put(record));
+                });
+                transaction.objectStore(META_STORE).put(schemaVersion, SCHEMA_VERSION_KEY);
+            } catch (error) {
+                // Leaves the stored data as it was.
+                transaction.abort();
+                done.catch(() => undefined);
+                throw error;
+            }
+            await done;
+        },
+        async saveBackup(key: string, backup: Backup) {
+            const transaction = db.transaction(META_STORE, 'readwrite');
+            transaction.objectStore(META_STORE).put(backup, `backup:${key}`);
+            await transactionDone(transaction);
+        },
+        async quarantine(collection: RecordKey, value: unknown) {
+            const transaction = db.transaction(META_STORE, 'readwrite');
+            transaction.objectStore(META_STORE).put(value, `quarantine:${collection}:${new Date().toISOString()}`);
+            await transactionDone(transaction);
+        },
+        // A value that used to be kept in localStorage is read from there until
+        // it is first saved here.
+        async loadValue(key: string) {
+            const value = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).get(`value:${key}`));
+            return value === undefined ? readLegacyValue(key) : value;
+        },
+        async saveValue(key: string, value: unknown) {
+            const transaction = db.transaction(META_STORE, 'readwrite');
+            transaction.objectStore(META_STORE).put(value, `value:${key}`);
+            await transactionDone(transaction);
+            window.localStorage.removeItem(key);
+        },
+    };
+}
@@ -0,0 +1,89 @@
+import { RECORD_KEYS, type Backup, type RecordKey } from '@/lib/backup';
+import type { TimeEntry } from '@/types';
+import { UnreadableValueError } from './errors';
+import type { RecordChanges, StorageBackend, StoredData, StoredRecord, TimeEntryQuery } from './types';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Reads a collection in the format the app used before IndexedDB: one JSON
+// array per key. Throws when the value is not valid JSON, so that it is never
+// mistaken for an empty collection.
+export function readLegacyCollection(collection: RecordKey): unknown {
+    const item = window.localStorage.getItem(collection);
+    if (item === null) return undefined;
+    try {
+        return JSON.parse(item);
+    } catch (error) {
+        throw new UnreadableValueError(collection, item, { cause: error });
+    }
+}
+
+// Reads a value that was kept in localStorage as JSON. A value that cannot be
+// read is treated as missing, like useLocalStorage does.
+export function readLegacyValue(key: string): unknown {
+    const item = window.localStorage.getItem(key);
+    if (item === null) return undefined;
+    try {
+        return JSON.parse(item);
+    } catch (error) {
+        console.error('Error reading from localStorage', error);
+        return undefined;
+    }
+}
+
+// The schema version of the data in localStorage, 0 when it has none.
+export function readLegacySchemaVersion() {
+    return Number(window.localStorage.getItem(SCHEMA_VERSION_KEY)) || 0;
+}
+
+export function removeLegacyData() {
+    RECORD_KEYS.forEach((collection) => window.localStorage.removeItem(collection));
+    window.localStorage.removeItem(SCHEMA_VERSION_KEY);
+}
+
+// Fallback for browsers without IndexedDB, e.g. some private browsing modes.
+// localStorage has no single-record writes, so every change still rewrites the
+// whole collection.
+export function createLocalStorageBackend(): StorageBackend {
+    return {
+        name: 'localStorage',
+        async load(collection) {
+            return readLegacyCollection(collection);
+        },
+        async write<K extends RecordKey>(collection: K, changes: RecordChanges<K>) {
+            const changedIds = new Set([...changes.delete, ...changes.put.map((record) => record.id)]);
+            const stored = (readLegacyCollection(collection) || []) as StoredRecord<K>[];
+            const records = stored.filter((record) => !changedIds.has(record.id));
+            window.localStorage.setItem(collection, JSON.stringify([...records, ...changes.put]));
+        },
+        async queryTimeEntries(query: TimeEntryQuery) {
+            const entries = (readLegacyCollection('timeEntries') || []) as TimeEntry[];
+            return entries.filter((entry) =>
+                (!query.employeeId || entry.employeeId === query.employeeId)
+                && (!query.locationId || entry.locationId === query.locationId)
+                && (!query.from || entry.startTime >= query.from)
+                && (!query.to || entry.startTime < query.to)
+            );
+        },
+        async getSchemaVersion() {
+            return readLegacySchemaVersion();
+        },
+        async replaceAll(data: StoredData, schemaVersion: number) {
+            RECORD_KEYS.forEach((collection) => window.localStorage.setItem(collection, JSON.stringify(data[collection])));
+            window.localStorage.setItem(SCHEMA_VERSION_KEY, String(schemaVersion));
+        },
+        async saveBackup(key: string, backup: Backup) {
+            window.localStorage.setItem(`backup:${key}`, JSON.stringify(backup));
+        },
+        async quarantine(collection: RecordKey, value: unknown) {
+            const key = `quarantine:${collection}:${new Date().toISOString()}`;
+            window.localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+        },
+        async loadValue(key: string) {
+            return readLegacyValue(key);
+        },
+        async saveValue(key: string, value: unknown) {
+            window.localStorage.setItem(key, JSON.stringify(value));
+        },
+    };
+}
@@ -0,0 +1,57 @@
+import { RECORD_KEYS, createBackup, type AppData } from '@/lib/backup';
+import { MigrationError } from './errors';
+import type { StorageBackend, StoredData } from './types';
+
+type Migration = {
+    version: number;
+    migrate: (data: StoredData) => StoredData;
+};
+
+// Every change to the stored types gets a migration here, in order. A migration
+// takes the data as the previous version wrote it and returns it in the shape
+// of its own version. Never change a migration once it has been released.
+const MIGRATIONS: Migration[] = [
+    {
+        // Data from before the schema had a version. Entries used to be saved
+        // with an empty end time and without a paid flag.
+        version: 1,
+        migrate: (data) => ({
+            ...data,
+            timeEntries: data.timeEntries.map((entry) => ({
+                ...entry,
+                endTime: entry.endTime || undefined,
+                paid: entry.paid === true,
+            })),
+        }),
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Brings data of `storedVersion` up to SCHEMA_VERSION, one migration at a time,
+// and returns it. Before each step a backup of the data is saved next to it.
+// Nothing else is written here; the caller stores the result once it has been
+// checked.
+export async function runMigrations(
+    storage: StorageBackend,
+    data: StoredData,
+    storedVersion: number,
+    settings: Pick<AppData, 'currency' | 'language'>
+): Promise<StoredData> {
+    if (storedVersion > SCHEMA_VERSION) {
+        throw new MigrationError('newerVersion', storedVersion);
+    }
+    let migrated = data;
+    for (const migration of MIGRATIONS.filter((m) => m.version > storedVersion)) {
+        const backup = createBackup({ ...migrated, ...settings });
+        try {
+            if (RECORD_KEYS.some((collection) => migrated[collection].length > 0)) {
+                await storage.saveBackup(`schema-v${migration.version - 1}`, backup);
+            }
+            migrated = migration.migrate(migrated);
+        } catch (error) {
+            throw new MigrationError('migrationFailed', migration.version, backup, { cause: error });
+        }
+    }
+    return migrated;
+}
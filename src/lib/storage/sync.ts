@@ -0,0 +1,66 @@
+import type { RecordKey } from '@/lib/backup';
+import type { RecordChanges, StoredRecord } from './types';
+
+type SyncMessage =
+    | { collection: RecordKey; changes: RecordChanges<RecordKey> }
+    | { key: string; value: unknown };
+
+type Listener = (message: SyncMessage) => void;
+
+const CHANNEL_NAME = 'timemaster-sync';
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+
+// One channel per tab. A channel does not receive its own messages, so a tab
+// only hears about changes made in other tabs.
+function getChannel() {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => listeners.forEach((listener) => listener(event.data));
+    return channel;
+}
+
+// Tells the other tabs which records were written.
+export function publishChanges<K extends RecordKey>(collection: K, changes: RecordChanges<K>) {
+    getChannel()?.postMessage({ collection, changes });
+}
+
+export function subscribeToChanges<K extends RecordKey>(collection: K, onChanges: (changes: RecordChanges<K>) => void) {
+    const listener: Listener = (message) => {
+        if ('collection' in message && message.collection === collection) onChanges(message.changes as RecordChanges<K>);
+    };
+    getChannel();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Tells the other tabs that a value was saved, see StorageBackend.saveValue.
+export function publishValue(key: string, value: unknown) {
+    getChannel()?.postMessage({ key, value });
+}
+
+export function subscribeToValue(key: string, onValue: (value: unknown) => void) {
+    const listener: Listener = (message) => {
+        if ('key' in message && message.key === key) onValue(message.value);
+    };
+    getChannel();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Merges changes into a collection record by record: a changed record replaces
+// the one with the same id, new records are added and deleted ones removed.
+// Records the changes do not mention are kept as they are.
+export function applyChanges<K extends RecordKey>(records: StoredRecord<K>[], changes: RecordChanges<K>): StoredRecord<K>[] {
+    const deleted = new Set(changes.delete);
+    const changed = new Map(changes.put.map((record) => [record.id, record]));
+    const merged = records
+        .filter((record) => !deleted.has(record.id))
+        .map((record) => changed.get(record.id) || record);
+    const existingIds = new Set(records.map((record) => record.id));
+    return [...merged, ...changes.put.filter((record) => !existingIds.has(record.id))];
+}
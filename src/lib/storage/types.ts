@@ -0,0 +1,40 @@
+import type { AppData, Backup, RecordKey } from '@/lib/backup';
+import type { TimeEntry } from '@/types';
+
+export type StoredRecord<K extends RecordKey> = AppData[K][number];
+
+// All collections, as read and written by the schema migrations.
+export type StoredData = Pick<AppData, RecordKey>;
+
+export type RecordChanges<K extends RecordKey> = {
+    put: StoredRecord<K>[];
+    delete: string[];
+};
+
+export type TimeEntryQuery = {
+    employeeId?: string;
+    locationId?: string;
+    from?: string; // ISO string, inclusive
+    to?: string; // ISO string, exclusive
+};
+
+// Where the records of the app are kept. Backends write single records, so a
+// change to one entry does not rewrite all the others.
+export interface StorageBackend {
+    readonly name: 'indexedDb' | 'localStorage';
+    // Returns the collection as stored, without any checks. openStorage checks it.
+    load(collection: RecordKey): Promise<unknown>;
+    write<K extends RecordKey>(collection: K, changes: RecordChanges<K>): Promise<void>;
+    queryTimeEntries(query: TimeEntryQuery): Promise<TimeEntry[]>;
+    // 0 for data written before the schema had a version.
+    getSchemaVersion(): Promise<number>;
+    // Writes all collections and the schema version at once, as far as the backend allows.
+    replaceAll(data: StoredData, schemaVersion: number): Promise<void>;
+    saveBackup(key: string, backup: Backup): Promise<void>;
+    // Keeps a damaged value under a key of its own, out of the way of the app.
+    quarantine(collection: RecordKey, value: unknown): Promise<void>;
+    // A value of the app that is not a collection of records but can outgrow
+    // localStorage, e.g. the sync outbox. undefined when nothing is stored.
+    loadValue(key: string): Promise<unknown>;
+    saveValue(key: string, value: unknown): Promise<void>;
+}
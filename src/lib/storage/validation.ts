@@ -0,0 +1,54 @@
+import { recordSchemas, type RecordKey } from '@/lib/backup';
+
+const isRecord = (value: unknown): value is { id: string } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as { id?: unknown }).id === 'string';
+
+// The least the migrations need: an array of objects with an id. Anything else
+// is counted as invalid and left out.
+export function splitStoredRecords(value: unknown) {
+    if (!Array.isArray(value)) {
+        return { records: [], invalid: value === undefined || value === null ? 0 : 1 };
+    }
+    const records = value.filter(isRecord);
+    return { records, invalid: value.length - records.length };
+}
+
+// Checks records against the schema of the current version.
+export function splitValidRecords<K extends RecordKey>(collection: K, records: unknown[]) {
+    const schema = recordSchemas[collection];
+    const valid = records.filter((record) => schema.safeParse(record).success);
+    return { valid, invalid: records.length - valid.length };
+}
+
+// Recovers the complete objects from a JSON array that cannot be parsed as a
+// whole, e.g. one that was cut off while being written. Each top-level object
+// is parsed on its own, and the ones that fail are skipped.
+export function salvageJsonArray(raw: string) {
+    const objects: unknown[] = [];
+    let depth = 0;
+    let start = -1;
+    let inString = false;
+
+    for (let i = 0; i < raw.length; i++) {
+        const char = raw[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            if (depth === 0) start = i;
+            depth++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+            if (depth === 0) {
+                try {
+                    objects.push(JSON.parse(raw.slice(start, i + 1)));
+                } catch {
+                    // Not a complete object; skip it.
+                }
+            }
+        }
+    }
+    return objects;
+}
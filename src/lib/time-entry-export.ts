@@ -0,0 +1,68 @@
+import { format } from 'date-fns';
+import type { TimeEntry } from '@/types';
+import { isEntryInPeriod } from './payroll';
+import { formatDate, formatEndTime, formatTime, getNetMinutes, isRunning } from './utils';
+
+export type PaidStatusFilter = 'all' | 'paid' | 'unpaid';
+
+export type TimeEntryFilter = {
+    from?: string; // yyyy-MM-dd
+    to?: string; // yyyy-MM-dd
+    employeeId?: string;
+    locationId?: string;
+    status: PaidStatusFilter;
+};
+
+export function filterTimeEntries(entries: TimeEntry[], filter: TimeEntryFilter) {
+    return entries
+        .filter((entry) =>
+            isEntryInPeriod(entry, filter.from || '0000-01-01', filter.to || '9999-12-31')
+            && (!filter.employeeId || entry.employeeId === filter.employeeId)
+            && (!filter.locationId || entry.locationId === filter.locationId)
+            && (filter.status === 'all' || (filter.status === 'paid' ? entry.paid : !entry.paid))
+        )
+        .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+type TimeEntryCsvHelpers = {
+    t: (key: string) => string;
+    getEmployeeName: (id: string) => string;
+    getLocationName: (id: string) => string;
+    getEarnedAmount: (entry: TimeEntry) => number | undefined;
+    decimals: number;
+    decimalSeparator: '.' | ',';
+};
+
+// One row per entry. Numbers are written without grouping or currency symbol,
+// so that spreadsheets read them as numbers.
+export function buildTimeEntryRows(entries: TimeEntry[], helpers: TimeEntryCsvHelpers) {
+    const { t, getEmployeeName, getLocationName, getEarnedAmount, decimals, decimalSeparator } = helpers;
+    const formatNumber = (value: number, digits: number) => value.toFixed(digits).replace('.', decimalSeparator);
+
+    return [
+        [t('employee'), t('location'), t('date'), t('startTime'), t('endTime'), t('durationHours'), t('amount'), t('status')],
+        ...entries.map((entry) => {
+            const amount = getEarnedAmount(entry);
+            const status = isRunning(entry) ? t('running') : entry.paid ? t('paid') : t('unpaid');
+            return [
+                getEmployeeName(entry.employeeId),
+                getLocationName(entry.locationId),
+                formatDate(entry.startTime),
+                formatTime(entry.startTime),
+                formatEndTime(entry.startTime, entry.endTime),
+                isRunning(entry) ? '' : formatNumber(getNetMinutes(entry) / 60, 2),
+                amount === undefined ? '' : formatNumber(amount, decimals),
+                status,
+            ];
+        }),
+    ];
+}
+
+export function getTimeEntryExportFileName(filter: TimeEntryFilter, employeeName?: string) {
+    const parts = ['TimeEntries'];
+    if (employeeName) parts.push(employeeName.replace(/\s+/g, '_'));
+    if (filter.from || filter.to) parts.push(`${filter.from || ''}_${filter.to || ''}`);
+    else parts.push(format(new Date(), 'yyyy-MM-dd'));
+    return `${parts.join('-')}.csv`;
+}
+
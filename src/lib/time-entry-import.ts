@@ -0,0 +1,64 @@
+import { isValid, parse } from 'date-fns';
+import type { TimeEntry } from '@/types';
+
+// Fields a CSV column can be mapped to. The amount is what was already paid
+// for the entry; it is recorded as a payment of that entry.
+export const IMPORT_FIELDS = ['employee', 'location', 'date', 'startTime', 'endTime', 'breakMinutes', 'amountPaid'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['employee', 'location', 'date', 'startTime'];
+
+// Index of the column for each field, or undefined when the field is not mapped.
+export type ColumnMapping = Record<ImportField, number | undefined>;
+
+// A checked row, with employee and location still given by name. They are
+// resolved, and created if needed, when the import is committed.
+export type TimeEntryImport = {
+    employeeName: string;
+    locationName: string;
+    entry: Omit<TimeEntry, 'id' | 'paid' | 'amount' | 'employeeId' | 'locationId'>;
+    amountPaid?: number;
+};
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+
+// Names are matched ignoring case and surrounding or repeated spaces.
+export function isSameName(a: string, b: string) {
+    return normalizeName(a) === normalizeName(b);
+}
+
+export function findByName<T extends { name: string }>(records: T[], name: string) {
+    return records.find((record) => isSameName(record.name, name));
+}
+
+// Maps a column to a field when its header equals the field's label, so that
+// files exported by this app are mapped without any changes.
+export function guessColumnMapping(headers: string[], getLabel: (field: ImportField) => string): ColumnMapping {
+    const normalizedHeaders = headers.map(normalizeName);
+    return Object.fromEntries(IMPORT_FIELDS.map((field) => {
+        const index = normalizedHeaders.findIndex((header) =>
+            header === normalizeName(getLabel(field)) || header === field.toLowerCase()
+        );
+        return [field, index === -1 ? undefined : index];
+    })) as ColumnMapping;
+}
+
+// Accepts dd.MM.yyyy, also without leading zeros. Returns null for anything else.
+export function parseImportDate(value: string) {
+    const date = parse(value.trim(), 'd.M.yyyy', new Date());
+    return isValid(date) ? date : null;
+}
+
+// Brings "7:30" or "7.30" into the "HH:mm" form used by the entry form. A day
+// suffix such as "06:00 (+1)" from the CSV export is dropped, since an end
+// before the start rolls over to the next day anyway.
+export function normalizeImportTime(value: string) {
+    const match = value.trim().replace(/\s*\(\+\d+\)$/, '').match(/^(\d{1,2})[:.](\d{2})$/);
+    return match ? `${match[1].padStart(2, '0')}:${match[2]}` : value.trim();
+}
+
+// Accepts a decimal comma as well as a decimal point. Empty values stay undefined.
+export function parseImportNumber(value: string) {
+    const text = value.trim();
+    if (text === '') return undefined;
+    return Number(text.replace(',', '.'));
+}
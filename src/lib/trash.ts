@@ -0,0 +1,49 @@
+import { addDays, parseISO } from 'date-fns';
+import type { TrashItem, TrashItemType } from '@/types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90, 365];
+
+type TrashItemOf<T extends TrashItemType> = Extract<TrashItem, { type: T }>;
+
+export function getTrashedRecords<T extends TrashItemType>(items: TrashItem[], type: T): TrashItemOf<T>['record'][] {
+    return items
+        .filter((item): item is TrashItemOf<T> => item.type === type)
+        .map((item) => item.record as TrashItemOf<T>['record']);
+}
+
+export function getTrashExpiry(item: TrashItem, retentionDays: number) {
+    return addDays(parseISO(item.deletedAt), retentionDays);
+}
+
+export function isTrashExpired(item: TrashItem, retentionDays: number, now = new Date()) {
+    return getTrashExpiry(item, retentionDays) <= now;
+}
+
+// An entry can only come back together with its employee and location, and an
+// employee comes back with the entries that were deleted along with them or
+// afterwards.
+export function getItemsToRestore(trash: TrashItem[], id: string): TrashItem[] {
+    const item = trash.find((other) => other.id === id);
+    if (!item) return [];
+    const entries = item.type === 'timeEntry'
+        ? [item]
+        : item.type === 'employee'
+            ? trash.filter((other): other is TrashItemOf<'timeEntry'> =>
+                other.type === 'timeEntry' && other.record.employeeId === id && other.deletedAt >= item.deletedAt)
+            : [];
+    const neededIds = new Set([id, ...entries.flatMap((entry) => [entry.id, entry.record.employeeId, entry.record.locationId])]);
+    return trash.filter((other) => neededIds.has(other.id));
+}
+
+// Deleting an employee or location for good also deletes the entries of
+// theirs that are still in the trash, since those could not be restored
+// anymore.
+export function getItemsToPurge(trash: TrashItem[], id: string): TrashItem[] {
+    const item = trash.find((other) => other.id === id);
+    if (!item) return [];
+    return trash.filter((other) => other.id === id || (other.type === 'timeEntry' && (
+        (item.type === 'employee' && other.record.employeeId === id)
+        || (item.type === 'location' && other.record.locationId === id)
+    )));
+}
@@ -1,7 +1,8 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { format, parseISO, differenceInMinutes, getWeek } from "date-fns"
+import { format, parseISO, differenceInSeconds, differenceInCalendarDays, addDays, isSameDay, startOfDay, getWeek } from "date-fns"
 import { de, enUS, ar } from 'date-fns/locale'
+import type { TimeEntry } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -25,29 +26,149 @@ export function formatDate(isoString: string, localeStr?: string) {
   return format(date, "dd.MM.yyyy", { locale: getLocale(localeStr) })
 }
 
-export function formatTime(isoString: string, localeStr?: string) {
+export function formatTime(isoString: string | undefined, localeStr?: string) {
   if (!isoString) return ''
   const date = parseISO(isoString)
   return format(date, "HH:mm", { locale: getLocale(localeStr) })
 }
 
-export function calculateDuration(startTime: string, endTime: string) {
-  if (!startTime || !endTime) return "0h 0m"
-  const start = parseISO(startTime)
-  const end = parseISO(endTime)
-  const minutes = differenceInMinutes(end, start)
+// Appends "(+1)" when the end lies on a later day than the start, e.g. for night shifts.
+export function formatEndTime(startTime: string, endTime: string | undefined, localeStr?: string) {
+  if (!endTime) return ''
+  const days = differenceInCalendarDays(parseISO(endTime), parseISO(startTime))
+  const time = formatTime(endTime, localeStr)
+  return days > 0 ? `${time} (+${days})` : time
+}
+
+export function formatMinutes(minutes: number) {
   if (minutes < 0) return "0h 0m"
   const hours = Math.floor(minutes / 60)
-  const remainingMinutes = minutes % 60
+  const remainingMinutes = Math.round(minutes % 60)
   return `${hours}h ${remainingMinutes}m`
 }
 
-export function calculateDurationInHours(startTime: string, endTime: string) {
-  if (!startTime || !endTime) return 0
-  const start = parseISO(startTime)
-  const end = parseISO(endTime)
-  const minutes = differenceInMinutes(end, start)
-  return minutes > 0 ? minutes / 60 : 0
+type EntryTimes = Pick<TimeEntry, 'startTime' | 'endTime' | 'breaks' | 'breakMinutes'>
+
+// A missing end time means the entry (or break) is still running, so it is measured up to now.
+function getGrossSeconds(entry: EntryTimes, now: Date) {
+  if (!entry.startTime) return 0
+  const end = entry.endTime ? parseISO(entry.endTime) : now
+  return Math.max(0, differenceInSeconds(end, parseISO(entry.startTime)))
+}
+
+function getBreakSeconds(entry: EntryTimes, now: Date) {
+  const entryEnd = entry.endTime ? parseISO(entry.endTime) : now
+  const intervals = (entry.breaks || []).reduce((acc, pause) => {
+    const end = pause.endTime ? parseISO(pause.endTime) : entryEnd
+    return acc + Math.max(0, differenceInSeconds(end, parseISO(pause.startTime)))
+  }, 0)
+  return intervals + (entry.breakMinutes || 0) * 60
+}
+
+export function getGrossMinutes(entry: EntryTimes, now: Date = new Date()) {
+  return Math.floor(getGrossSeconds(entry, now) / 60)
+}
+
+export function getBreakMinutes(entry: EntryTimes, now: Date = new Date()) {
+  return Math.floor(getBreakSeconds(entry, now) / 60)
+}
+
+// Breaks are unpaid, so the net duration is what counts as worked time.
+export function getNetMinutes(entry: EntryTimes, now: Date = new Date()) {
+  return Math.max(0, Math.floor((getGrossSeconds(entry, now) - getBreakSeconds(entry, now)) / 60))
+}
+
+export function calculateDuration(entry: EntryTimes) {
+  return formatMinutes(getNetMinutes(entry))
+}
+
+export function calculateGrossDuration(entry: EntryTimes) {
+  return formatMinutes(getGrossMinutes(entry))
+}
+
+export function calculateDurationInHours(entry: EntryTimes) {
+  return getNetMinutes(entry) / 60
+}
+
+export function calculateGrossDurationInHours(entry: EntryTimes) {
+  return getGrossMinutes(entry) / 60
+}
+
+// Net time worked so far, as a ticking "HH:mm:ss" clock for running entries.
+export function formatElapsed(entry: EntryTimes, now: Date = new Date()) {
+  const seconds = Math.max(0, getGrossSeconds(entry, now) - getBreakSeconds(entry, now))
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`
+}
+
+export function isRunning(entry: { endTime?: string }) {
+  return !entry.endTime
+}
+
+export function isPaused(entry: Pick<TimeEntry, 'endTime' | 'breaks'>) {
+  return isRunning(entry) && !!entry.breaks?.some((pause) => !pause.endTime)
+}
+
+// Entries belong to the day they started on, so a 22:00-06:00 shift counts
+// towards the evening it began.
+export function isEntryOnDay(entry: { startTime: string }, day: Date) {
+  return isSameDay(parseISO(entry.startTime), day)
+}
+
+// True for entries that started on an earlier day and are still in progress
+// on `day`, like the morning half of a night shift.
+export function isCarriedOverToDay(entry: { startTime: string; endTime?: string }, day: Date) {
+  const start = parseISO(entry.startTime)
+  if (start >= startOfDay(day)) return false
+  const end = entry.endTime ? parseISO(entry.endTime) : new Date()
+  return end > startOfDay(day)
+}
+
+// Builds the ISO start and end of an entry from a work date and "HH:mm" times.
+// An end time at or before the start time rolls over to the next day.
+export function buildEntryTimes(date: Date, startTime: string, endTime?: string) {
+  const atTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    const result = new Date(day)
+    result.setHours(hours, minutes, 0, 0)
+    return result
+  }
+  const start = atTime(date, startTime)
+  if (!endTime) return { startTime: start.toISOString(), endTime: undefined }
+  let end = atTime(date, endTime)
+  if (end <= start) end = atTime(addDays(date, 1), endTime)
+  return { startTime: start.toISOString(), endTime: end.toISOString() }
+}
+
+// Places a break given as "HH:mm" times on the timeline of an entry that started
+// at `entryStartTime`; times before the entry start belong to the next day.
+export function buildBreakTimes(entryStartTime: string, startTime: string, endTime?: string) {
+  const entryStart = parseISO(entryStartTime)
+  const atTime = (time: string, notBefore: Date) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    const result = new Date(entryStart)
+    result.setHours(hours, minutes, 0, 0)
+    if (result < notBefore) result.setDate(result.getDate() + 1)
+    return result
+  }
+  const start = atTime(startTime, entryStart)
+  if (!endTime) return { startTime: start.toISOString() }
+  const end = atTime(endTime, start)
+  return { startTime: start.toISOString(), endTime: end.toISOString() }
+}
+
+// Minutes between `startTime` and `time` (both "HH:mm"), wrapping past midnight.
+export function minutesAfter(startTime: string, time: string) {
+  const [startHours, startMinutes] = startTime.split(':').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const diff = hours * 60 + minutes - (startHours * 60 + startMinutes)
+  return diff < 0 ? diff + 24 * 60 : diff
+}
+
+export function isOvernight(startTime: string, endTime: string) {
+  const [startHours, startMinutes] = startTime.split(':').map(Number)
+  const [endHours, endMinutes] = endTime.split(':').map(Number)
+  return endHours * 60 + endMinutes < startHours * 60 + startMinutes
 }
 
 export function getWeekNumber(dateString: string) {
@@ -0,0 +1,55 @@
+import { format, parseISO } from 'date-fns';
+import type { Employee, PayModel, TimeEntry } from '@/types';
+import { getNetMinutes, isEntryOnDay } from './utils';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+type Rate = { payModel: PayModel; rate: number };
+
+// Finds the rate that applied on `date` (yyyy-MM-dd). The latest change that is
+// already effective wins, and a change for the entry's location beats a general
+// one. Before the first change, the employee's base rate applies.
+export function getApplicableRate(employee: Employee, date: string, locationId?: string): Rate | undefined {
+    const effective = (employee.rateHistory || [])
+        .filter((change) => change.effectiveFrom <= date)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    const locationRate = locationId ? effective.find((change) => change.locationId === locationId) : undefined;
+    const generalRate = effective.find((change) => !change.locationId);
+    const rate = locationRate || generalRate;
+    if (rate) return { payModel: rate.payModel, rate: rate.rate };
+
+    if (!employee.payModel || employee.rate === undefined) return undefined;
+    return { payModel: employee.payModel, rate: employee.rate };
+}
+
+export function getEntryRate(entry: TimeEntry, employee: Employee) {
+    return getApplicableRate(employee, format(parseISO(entry.startTime), 'yyyy-MM-dd'), entry.locationId);
+}
+
+// Works out what an entry earns under the rate that applied on its date.
+// Returns undefined when the employee has no rate, so callers can fall back to
+// showing nothing instead of a misleading zero.
+//
+// A daily wage is paid once per working day. When an employee has several
+// entries on the same day, the day's wage is split between them by net time.
+export function calculateEarnedAmount(entry: TimeEntry, employee: Employee | undefined, entries: TimeEntry[]) {
+    if (!employee) return undefined;
+    const rate = getEntryRate(entry, employee);
+    if (!rate) return undefined;
+
+    switch (rate.payModel) {
+        case 'hourly':
+            return roundAmount((getNetMinutes(entry) / 60) * rate.rate);
+        case 'daily': {
+            const sameDay = entries.filter(
+                (other) => other.employeeId === entry.employeeId && isEntryOnDay(other, parseISO(entry.startTime))
+            );
+            const dayMinutes = sameDay.reduce((acc, other) => acc + getNetMinutes(other), 0);
+            if (dayMinutes === 0) return roundAmount(rate.rate / Math.max(sameDay.length, 1));
+            return roundAmount((getNetMinutes(entry) / dayMinutes) * rate.rate);
+        }
+        case 'fixed':
+            return rate.rate;
+    }
+}
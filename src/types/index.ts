@@ -1,19 +1,178 @@
+export type Break = {
+  startTime: string; // ISO string
+  endTime?: string; // ISO string, undefined while the break is still running
+};
+
 export type TimeEntry = {
   id: string;
   employeeId: string;
   locationId: string;
   startTime: string; // ISO string
-  endTime: string; // ISO string
+  endTime?: string; // ISO string, undefined while the entry is still running
+  breaks?: Break[]; // unpaid break intervals
+  breakMinutes?: number; // unpaid break recorded as a plain duration
   paid: boolean;
   amount?: number;
 };
 
+// hourly: rate per net hour, daily: rate per working day, fixed: rate per entry
+export type PayModel = 'hourly' | 'daily' | 'fixed';
+
+// A rate that applies from `effectiveFrom` on, either everywhere or only at one location.
+export type RateChange = {
+    id: string;
+    effectiveFrom: string; // yyyy-MM-dd
+    payModel: PayModel;
+    rate: number;
+    locationId?: string;
+};
+
 export type Employee = {
     id: string;
     name: string;
+    payModel?: PayModel; // base rate, applies before the first rate change
+    rate?: number;
+    rateHistory?: RateChange[];
+    pin?: PinSecret; // lets the employee clock in and out at a kiosk
 };
 
 export type Location = {
     id: string;
     name: string;
 };
+
+export type PaymentMethod = 'cash' | 'bankTransfer' | 'other';
+
+// A payout to an employee. It can settle several entries at once, or none at
+// all for a partial payment on account.
+export type Payment = {
+    id: string;
+    employeeId: string;
+    date: string; // ISO string
+    amount: number;
+    method: PaymentMethod;
+    note?: string;
+    entryIds: string[];
+    adjustmentIds?: string[]; // advances and deductions netted against this payment
+};
+
+// advance: money handed out ahead of payday, the others reduce what is owed
+export type AdjustmentType = 'advance' | 'fine' | 'loanRepayment' | 'other';
+
+// An advance or deduction. It lowers the employee's balance right away and is
+// netted against earned wages by the next payment that includes it.
+export type Adjustment = {
+    id: string;
+    employeeId: string;
+    date: string; // ISO string
+    type: AdjustmentType;
+    amount: number;
+    note?: string;
+};
+
+// One employee's share of a payroll run. Names and amounts are copied in so
+// the run keeps showing what was paid, even if the employee changes later.
+export type PayrollLine = {
+    employeeId: string;
+    employeeName: string;
+    entryIds: string[];
+    netMinutes: number;
+    earned: number;
+    deductions: number; // advances and deductions netted against the earned amount
+    adjustmentIds: string[];
+    amount: number; // what was actually paid out
+    paymentId?: string; // undefined when nothing was paid out
+};
+
+// A confirmed payroll run. Runs are locked once confirmed and only read afterwards.
+export type PayrollRun = {
+    id: string;
+    periodStart: string; // yyyy-MM-dd
+    periodEnd: string; // yyyy-MM-dd, inclusive
+    confirmedAt: string; // ISO string
+    method: PaymentMethod;
+    lines: PayrollLine[];
+};
+
+export type CurrencySettings = {
+    code: string; // ISO 4217, e.g. IQD or EUR
+    decimals: number;
+    symbolPosition: 'before' | 'after';
+};
+
+export type TrashItemType = 'timeEntry' | 'employee' | 'location';
+
+// A deleted record, kept in the trash until it is restored or purged. The id is
+// the id of the record. `paymentIds` lists the payments an entry was linked to,
+// so that the links come back when it is restored.
+export type TrashItem = { id: string; deletedAt: string } & (
+    | { type: 'timeEntry'; record: TimeEntry; paymentIds: string[] }
+    | { type: 'employee'; record: Employee }
+    | { type: 'location'; record: Location }
+);
+
+export type AuditCollection = 'timeEntries' | 'employees' | 'locations';
+
+// paymentStatus: only the paid flag or the paid amount changed
+export type AuditKind = 'create' | 'update' | 'delete' | 'restore' | 'paymentStatus';
+
+export type AuditFieldChange = {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+};
+
+// Who made a change. Every device gets its own id on first use.
+export type AuditActor = {
+    deviceId: string;
+    deviceName: string;
+};
+
+// One change to one record. The log is only ever appended to.
+export type AuditRecord = {
+    id: string;
+    timestamp: string; // ISO string
+    collection: AuditCollection;
+    recordId: string;
+    kind: AuditKind;
+    action: string; // the app action that made the change, e.g. updateTimeEntry or undo
+    actor: AuditActor;
+    changes: AuditFieldChange[];
+};
+
+export type ChainCollection = 'timeEntries' | 'payments';
+
+// One link of the tamper-evident log. Each link hashes the record as it was
+// sealed together with the hash of the link before it, so changing or removing
+// a link breaks every link after it.
+export type ChainLink = {
+    id: string; // chain-<seq>, zero-padded so that links sort by id
+    seq: number;
+    timestamp: string; // ISO string
+    collection: ChainCollection;
+    recordId: string;
+    recordHash: string | null; // null when the record was deleted
+    prevRecordHash?: string; // the sealed version this link replaces, only on re-seals
+    prevHash: string;
+    hash: string;
+};
+
+// admin: everything, foreman: hours of the assigned employees at the assigned
+// locations, worker: only sees their own hours
+export type UserRole = 'admin' | 'foreman' | 'worker';
+
+// A salted hash of a PIN.
+export type PinSecret = {
+    salt: string;
+    hash: string;
+};
+
+// A profile of someone using this device. Profiles are local to the device.
+export type UserProfile = {
+    id: string;
+    name: string;
+    role: UserRole;
+    employeeIds: string[]; // foreman: assigned employees, worker: their own employee
+    locationIds: string[]; // foreman: assigned locations
+    pin?: PinSecret; // unlocks the app as this profile when the lock uses profile PINs
+};
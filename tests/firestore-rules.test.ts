@@ -0,0 +1,109 @@
+// Checks firestore.rules against the Firestore emulator. Needs Java for the
+// emulator:
+//
+//   npm run test:firestore
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+
+const PROJECT_ID = 'demo-timemaster';
+const WORKSPACE = 'workspaces/test';
+const JOIN_CODE = 'join-code';
+
+const version = { modifiedAt: new Date(Date.UTC(2026, 0, 1)).toISOString(), deviceId: 'device-a' };
+
+describe('firestore.rules', () => {
+    let testEnv: RulesTestEnvironment;
+
+    before(async () => {
+        testEnv = await initializeTestEnvironment({
+            projectId: PROJECT_ID,
+            firestore: { rules: readFileSync(path.join(__dirname, '..', 'firestore.rules'), 'utf8') },
+        });
+    });
+
+    // Alice is a member of the workspace, Bob is signed in but is not.
+    beforeEach(() => testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc(WORKSPACE).set({ joinCode: JOIN_CODE });
+        await context.firestore().doc(`${WORKSPACE}/members/alice`).set({ joinCode: JOIN_CODE });
+    }));
+
+    afterEach(() => testEnv.clearFirestore());
+
+    after(() => testEnv.cleanup());
+
+    const getDb = (uid = 'alice') => testEnv.authenticatedContext(uid).firestore();
+
+    for (const collection of ['employees', 'locations', 'timeEntries']) {
+        test(`${collection} can be written, read and deleted as a tombstone`, async () => {
+            const document = getDb().doc(`${WORKSPACE}/${collection}/r1`);
+            await assertSucceeds(document.set({ record: { id: 'r1' }, ...version }));
+            await assertSucceeds(document.get());
+            await assertSucceeds(document.set({ record: null, ...version }));
+        });
+    }
+
+    test('devices that are not signed in can neither write nor read records', async () => {
+        const document = testEnv.unauthenticatedContext().firestore().doc(`${WORKSPACE}/employees/e1`);
+        await assertFails(document.set({ record: { id: 'e1' }, ...version }));
+        await assertFails(document.get());
+    });
+
+    test('devices that are not members can neither write nor read records', async () => {
+        const document = getDb('bob').doc(`${WORKSPACE}/employees/e1`);
+        await assertFails(document.set({ record: { id: 'e1' }, ...version }));
+        await assertFails(document.get());
+    });
+
+    test('a device joins a workspace with its code, and only as itself', async () => {
+        const db = getDb('bob');
+        await assertFails(db.doc(`${WORKSPACE}/members/bob`).set({ joinCode: 'wrong-code' }));
+        await assertFails(db.doc(`${WORKSPACE}/members/carol`).set({ joinCode: JOIN_CODE }));
+        await assertSucceeds(db.doc(`${WORKSPACE}/members/bob`).set({ joinCode: JOIN_CODE }));
+        await assertSucceeds(db.doc(`${WORKSPACE}/employees/e1`).set({ record: { id: 'e1' }, ...version }));
+    });
+
+    test('the first device creates a workspace together with its membership', async () => {
+        const db = getDb('bob');
+        const batch = db.batch();
+        batch.set(db.doc('workspaces/new'), { joinCode: JOIN_CODE });
+        batch.set(db.doc('workspaces/new/members/bob'), { joinCode: JOIN_CODE });
+        await assertSucceeds(batch.commit());
+    });
+
+    test('the code of a workspace can be neither read nor changed', async () => {
+        await assertFails(getDb().doc(WORKSPACE).get());
+        await assertFails(getDb().doc(WORKSPACE).set({ joinCode: 'other-code' }));
+        await assertFails(getDb('bob').doc(WORKSPACE).set({ joinCode: 'other-code' }));
+    });
+
+    test('other collections can be neither written nor read', async () => {
+        const document = getDb().doc(`${WORKSPACE}/payments/p1`);
+        await assertFails(document.set({ record: { id: 'p1' }, ...version }));
+        await assertFails(document.get());
+    });
+
+    test('documents outside a workspace cannot be written', async () => {
+        await assertFails(getDb().doc('employees/e1').set({ record: { id: 'e1' }, ...version }));
+    });
+
+    test('a record needs its version fields and nothing else', async () => {
+        const document = getDb().doc(`${WORKSPACE}/employees/e1`);
+        await assertFails(document.set({ record: { id: 'e1' }, deviceId: 'device-a' }));
+        await assertFails(document.set({ record: { id: 'e1' }, ...version, modifiedAt: 1 }));
+        await assertFails(document.set({ record: { id: 'e1' }, modifiedAt: version.modifiedAt }));
+        await assertFails(document.set({ record: { id: 'e1' }, ...version, extra: true }));
+    });
+
+    test('a record must carry the id of its document', async () => {
+        await assertFails(getDb().doc(`${WORKSPACE}/employees/e1`).set({ record: { id: 'e2' }, ...version }));
+    });
+
+    test('documents cannot be deleted, only replaced by a tombstone', async () => {
+        await testEnv.withSecurityRulesDisabled(async (context) => {
+            await context.firestore().doc(`${WORKSPACE}/employees/e1`).set({ record: { id: 'e1' }, ...version });
+        });
+        await assertFails(getDb().doc(`${WORKSPACE}/employees/e1`).delete());
+    });
+});
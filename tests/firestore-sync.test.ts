@@ -0,0 +1,176 @@
+// Mirrors records between two devices through the Firestore emulator, see
+// docs/firestore.md. Needs Java for the emulator:
+//
+//   npm run test:firestore
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deleteApp, initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, signInAnonymously } from 'firebase/auth';
+import { connectFirestoreEmulator, doc, getDoc, initializeFirestore, terminate, type Firestore, type FirestoreError } from 'firebase/firestore';
+import { joinWorkspace, resolveRemoteChange, subscribeToCollection, writeChanges, type FirestoreKey } from '@/lib/firestore-sync';
+import { toSyncChanges, type SyncChange, type SyncChanges } from '@/lib/remote-sync';
+
+const PROJECT_ID = 'demo-timemaster';
+// Set by `firebase emulators:exec`.
+const [EMULATOR_HOST, EMULATOR_PORT] = (process.env.FIRESTORE_EMULATOR_HOST || 'localhost:8080').split(':');
+const AUTH_EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || 'localhost:9099';
+const JOIN_CODE = 'join-code';
+
+const devices: Firestore[] = [];
+// The user id every device signs in with, as the app does.
+const uids = new Map<Firestore, Promise<string>>();
+
+// Every device gets an app of its own, so that they only share what goes
+// through the emulator.
+function openDevice(name: string): Firestore {
+    const app = initializeApp({ projectId: PROJECT_ID, apiKey: 'demo-key' }, name);
+    const db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+    connectFirestoreEmulator(db, EMULATOR_HOST, Number(EMULATOR_PORT));
+    const auth = getAuth(app);
+    connectAuthEmulator(auth, `http://${AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    uids.set(db, signInAnonymously(auth).then(({ user }) => user.uid));
+    devices.push(db);
+    return db;
+}
+
+// Every test writes to a workspace of its own, which the devices join one
+// after the other; the first one creates it.
+let workspaceCount = 0;
+async function newWorkspace(...members: Firestore[]) {
+    const workspaceId = `test-${Date.now()}-${++workspaceCount}`;
+    for (const db of members) await joinWorkspace(db, await uids.get(db)!, workspaceId, JOIN_CODE);
+    return workspaceId;
+}
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString();
+
+const putChanges = <T extends { id: string }>(key: FirestoreKey, records: T[], deviceId: string, modifiedAt: string) =>
+    toSyncChanges({ [key]: { put: records, delete: [] } } as SyncChanges, deviceId, modifiedAt);
+
+const deleteChanges = (key: FirestoreKey, ids: string[], deviceId: string, modifiedAt: string) =>
+    toSyncChanges({ [key]: { put: [], delete: ids } } as SyncChanges, deviceId, modifiedAt);
+
+type Received = { changes: SyncChange[]; ids: string[] };
+
+// Collects what the listener hands over until a snapshot from the server
+// satisfies `isDone`.
+function waitForSnapshot(db: Firestore, workspaceId: string, key: FirestoreKey, isDone: (received: Received) => boolean) {
+    return new Promise<Received>((resolve, reject) => {
+        const received: Received = { changes: [], ids: [] };
+        const unsubscribe = subscribeToCollection(db, workspaceId, key, (changes, snapshot) => {
+            received.changes.push(...changes);
+            received.ids = snapshot.ids;
+            if (snapshot.fromServer && isDone(received)) {
+                unsubscribe();
+                resolve(received);
+            }
+        }, (error) => {
+            unsubscribe();
+            reject(error);
+        });
+    });
+}
+
+after(async () => {
+    for (const db of devices) {
+        await terminate(db);
+        await deleteApp(db.app);
+    }
+});
+
+describe('Firestore mirror', () => {
+    const deviceA = openDevice('device-a');
+    const deviceB = openDevice('device-b');
+
+    test('records written on one device reach the other with their version', async () => {
+        const workspaceId = await newWorkspace(deviceA, deviceB);
+        await writeChanges(deviceA, workspaceId, putChanges('employees', [{ id: 'e1', name: 'Ada' }], 'device-a', at(1)));
+
+        const { changes } = await waitForSnapshot(deviceB, workspaceId, 'employees', ({ ids }) => ids.includes('e1'));
+        assert.deepEqual(changes, [{ collection: 'employees', id: 'e1', record: { id: 'e1', name: 'Ada' }, modifiedAt: at(1), deviceId: 'device-a' }]);
+    });
+
+    test('a deleted record stays as a tombstone that other devices receive', async () => {
+        const workspaceId = await newWorkspace(deviceA, deviceB);
+        await writeChanges(deviceA, workspaceId, putChanges('locations', [{ id: 'l1', name: 'Site' }], 'device-a', at(1)));
+        await writeChanges(deviceA, workspaceId, deleteChanges('locations', ['l1'], 'device-a', at(2)));
+
+        const stored = await getDoc(doc(deviceB, 'workspaces', workspaceId, 'locations', 'l1'));
+        assert.equal(stored.exists(), true);
+        assert.deepEqual(stored.data(), { record: null, modifiedAt: at(2), deviceId: 'device-a' });
+
+        const { changes, ids } = await waitForSnapshot(deviceB, workspaceId, 'locations', ({ ids: known }) => known.includes('l1'));
+        assert.deepEqual(ids, ['l1']);
+        assert.deepEqual(changes.map((change) => change.record), [null]);
+    });
+
+    test('records that are not valid are left out', async () => {
+        const workspaceId = await newWorkspace(deviceA, deviceB);
+        // Allowed by the rules, which do not know the fields of a time entry.
+        await writeChanges(deviceA, workspaceId, [
+            ...putChanges('timeEntries', [{ id: 't1' }], 'device-a', at(1)),
+            ...putChanges('timeEntries', [{ id: 't2', employeeId: 'e1', locationId: 'l1', startTime: at(0), paid: false }], 'device-a', at(1)),
+        ]);
+
+        const { changes } = await waitForSnapshot(deviceB, workspaceId, 'timeEntries', ({ ids }) => ids.length === 2);
+        assert.deepEqual(changes.map((change) => change.id), ['t2']);
+    });
+
+    test('a device that has not joined the workspace cannot write to it', async () => {
+        const workspaceId = await newWorkspace(deviceA);
+        await assert.rejects(
+            writeChanges(deviceB, workspaceId, putChanges('employees', [{ id: 'e1', name: 'Ada' }], 'device-b', at(1))),
+            (error: FirestoreError) => error.code === 'permission-denied'
+        );
+    });
+
+    test('a wrong join code is refused', async () => {
+        const workspaceId = await newWorkspace(deviceA);
+        await assert.rejects(
+            joinWorkspace(deviceB, await uids.get(deviceB)!, workspaceId, 'wrong-code'),
+            (error: FirestoreError) => error.code === 'permission-denied'
+        );
+    });
+
+    test('more records than fit into one batch are all written', async () => {
+        const workspaceId = await newWorkspace(deviceA, deviceB);
+        const employees = Array.from({ length: 1200 }, (_, i) => ({ id: `e${i}`, name: `Employee ${i}` }));
+        await writeChanges(deviceA, workspaceId, putChanges('employees', employees, 'device-a', at(1)));
+
+        const { ids } = await waitForSnapshot(deviceB, workspaceId, 'employees', ({ ids: known }) => known.length === employees.length);
+        assert.equal(ids.length, employees.length);
+    });
+
+    test('an older write that reaches the server last is written again by the device with the newer one', async () => {
+        const workspaceId = await newWorkspace(deviceA, deviceB);
+        const newer = putChanges('employees', [{ id: 'e1', name: 'From A' }], 'device-a', at(2));
+        const older = putChanges('employees', [{ id: 'e1', name: 'From B' }], 'device-b', at(1));
+        await writeChanges(deviceA, workspaceId, newer);
+        await writeChanges(deviceB, workspaceId, older);
+
+        const { changes } = await waitForSnapshot(deviceA, workspaceId, 'employees', ({ ids }) => ids.includes('e1'));
+        const remote = changes.at(-1)!;
+        assert.equal(remote.deviceId, 'device-b');
+        assert.equal(resolveRemoteChange(newer[0], remote), 'keep');
+
+        await writeChanges(deviceA, workspaceId, newer);
+        const { changes: settled } = await waitForSnapshot(deviceB, workspaceId, 'employees', ({ ids }) => ids.includes('e1'));
+        assert.equal(resolveRemoteChange(older[0], settled.at(-1)!), 'apply');
+        assert.deepEqual(settled.at(-1)!.record, { id: 'e1', name: 'From A' });
+    });
+});
+
+describe('resolveRemoteChange', () => {
+    test('applies a record this device has never seen', () => {
+        assert.equal(resolveRemoteChange(undefined, { modifiedAt: at(1), deviceId: 'device-b' }), 'apply');
+    });
+
+    test('skips the version this device has already', () => {
+        assert.equal(resolveRemoteChange({ modifiedAt: at(1), deviceId: 'device-a' }, { modifiedAt: at(1), deviceId: 'device-a' }), 'skip');
+    });
+
+    test('orders changes made at the same moment by device', () => {
+        assert.equal(resolveRemoteChange({ modifiedAt: at(1), deviceId: 'device-a' }, { modifiedAt: at(1), deviceId: 'device-b' }), 'apply');
+        assert.equal(resolveRemoteChange({ modifiedAt: at(1), deviceId: 'device-b' }, { modifiedAt: at(1), deviceId: 'device-a' }), 'keep');
+    });
+});
@@ -0,0 +1,248 @@
+// Runs devices against scripts/sync-server.mjs, see docs/sync-protocol.md.
+//
+//   npm test
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+    DEFAULT_SYNC_SETTINGS,
+    SyncError,
+    addToOutbox,
+    groupChanges,
+    mergeRemoteChanges,
+    pullChanges,
+    pushChanges,
+    removeFromOutbox,
+    toSyncChanges,
+    type SyncChange,
+    type SyncSettings,
+} from '@/lib/remote-sync';
+import { applyChanges } from '@/lib/storage';
+import type { Employee } from '@/types';
+
+const SERVER = path.join(__dirname, '..', 'scripts', 'sync-server.mjs');
+
+type Server = { endpoint: string; stop: () => Promise<void> };
+
+function getFreePort() {
+    return new Promise<number>((resolve, reject) => {
+        const probe = createServer();
+        probe.once('error', reject);
+        probe.listen(0, () => {
+            const { port } = probe.address() as { port: number };
+            probe.close(() => resolve(port));
+        });
+    });
+}
+
+async function startServer(env: Record<string, string> = {}, port?: number): Promise<Server> {
+    const listenOn = port ?? await getFreePort();
+    const child: ChildProcess = spawn(process.execPath, [SERVER], {
+        env: { ...process.env, PORT: String(listenOn), ...env },
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    await new Promise<void>((resolve, reject) => {
+        child.once('exit', (code) => reject(new Error(`Sync server exited with ${code}`)));
+        child.stdout?.on('data', (data: Buffer) => {
+            if (data.toString().includes('listening')) resolve();
+        });
+    });
+    return {
+        endpoint: `http://localhost:${listenOn}`,
+        stop: () => new Promise<void>((resolve) => {
+            if (child.exitCode !== null) return resolve();
+            child.removeAllListeners('exit');
+            child.once('exit', () => resolve());
+            child.kill();
+        }),
+    };
+}
+
+// A device as useRemoteSync sees it, with only the employees to keep it short.
+type Device = {
+    id: string;
+    settings: SyncSettings;
+    outbox: SyncChange[];
+    cursor: string;
+    employees: Employee[];
+};
+
+const createDevice = (id: string, endpoint: string, token = ''): Device => ({
+    id,
+    settings: { ...DEFAULT_SYNC_SETTINGS, enabled: true, endpoint, token },
+    outbox: [],
+    cursor: '',
+    employees: [],
+});
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString();
+
+function edit(device: Device, employee: Employee, modifiedAt: string) {
+    device.employees = applyChanges<'employees'>(device.employees, { put: [employee], delete: [] });
+    device.outbox = addToOutbox(device.outbox, toSyncChanges({ employees: { put: [employee], delete: [] } }, device.id, modifiedAt));
+}
+
+function applyMerged(device: Device, remote: SyncChange[]) {
+    const { apply, outbox } = mergeRemoteChanges(device.outbox, remote, device.id);
+    device.outbox = outbox;
+    const changes = groupChanges(apply).employees;
+    if (changes) device.employees = applyChanges<'employees'>(device.employees, changes);
+}
+
+// The steps of syncNow in useRemoteSync: pull, apply what wins against the
+// outbox, push the rest and apply what the server rejected.
+async function sync(device: Device) {
+    const pulled = await pullChanges(device.settings, device.cursor);
+    applyMerged(device, pulled.changes);
+    device.cursor = pulled.cursor;
+    const pending = device.outbox;
+    if (pending.length > 0) {
+        const { rejected } = await pushChanges(device.settings, device.id, pending);
+        device.outbox = removeFromOutbox(device.outbox, pending);
+        applyMerged(device, rejected);
+    }
+}
+
+const nameOf = (device: Device, id: string) => device.employees.find((employee) => employee.id === id)?.name;
+
+describe('sync server', () => {
+    let server: Server;
+
+    before(async () => {
+        server = await startServer();
+    });
+
+    after(() => server.stop());
+
+    test('offline edits stay in the outbox and are pushed once the server is reachable', async () => {
+        const offline = await getFreePort();
+        const a = createDevice('device-a', `http://localhost:${offline}`);
+        const b = createDevice('device-b', server.endpoint);
+        edit(a, { id: 'offline-1', name: 'Ada' }, at(0));
+
+        await assert.rejects(sync(a), (error) => error instanceof SyncError && error.reason === 'network');
+        assert.equal(a.outbox.length, 1);
+
+        a.settings.endpoint = server.endpoint;
+        await sync(a);
+        assert.deepEqual(a.outbox, []);
+
+        await sync(b);
+        assert.equal(nameOf(b, 'offline-1'), 'Ada');
+    });
+
+    test('the later of two conflicting edits wins on every device', async () => {
+        const a = createDevice('device-a', server.endpoint);
+        const b = createDevice('device-b', server.endpoint);
+        edit(a, { id: 'conflict-1', name: 'Initial' }, at(0));
+        await sync(a);
+        await sync(b);
+
+        edit(a, { id: 'conflict-1', name: 'From A' }, at(2));
+        edit(b, { id: 'conflict-1', name: 'From B' }, at(1));
+        await sync(b);
+        await sync(a);
+        await sync(b);
+
+        assert.equal(nameOf(a, 'conflict-1'), 'From A');
+        assert.equal(nameOf(b, 'conflict-1'), 'From A');
+        assert.deepEqual(a.outbox, []);
+        assert.deepEqual(b.outbox, []);
+    });
+
+    test('an older change is dropped from the outbox when a newer one is pulled', async () => {
+        const a = createDevice('device-a', server.endpoint);
+        const b = createDevice('device-b', server.endpoint);
+        edit(a, { id: 'conflict-2', name: 'From A' }, at(2));
+        edit(b, { id: 'conflict-2', name: 'From B' }, at(1));
+        await sync(a);
+        await sync(b);
+
+        assert.equal(nameOf(b, 'conflict-2'), 'From A');
+        assert.deepEqual(b.outbox, []);
+    });
+
+    test('a push that lost the race returns the newer version as rejected', async () => {
+        const a = createDevice('device-a', server.endpoint);
+        const b = createDevice('device-b', server.endpoint);
+        edit(a, { id: 'conflict-3', name: 'From A' }, at(2));
+        await sync(a);
+
+        // B pulled before A pushed, so only the push finds the conflict.
+        edit(b, { id: 'conflict-3', name: 'From B' }, at(1));
+        const { rejected } = await pushChanges(b.settings, b.id, b.outbox);
+        assert.equal(rejected.length, 1);
+        applyMerged(b, rejected);
+        assert.equal(nameOf(b, 'conflict-3'), 'From A');
+    });
+
+    test('pushing the same changes again, after a lost response, is not a conflict', async () => {
+        const a = createDevice('device-a', server.endpoint);
+        edit(a, { id: 'retry-1', name: 'Ada' }, at(0));
+        const pending = a.outbox;
+
+        assert.deepEqual((await pushChanges(a.settings, a.id, pending)).rejected, []);
+        assert.deepEqual((await pushChanges(a.settings, a.id, pending)).rejected, []);
+    });
+
+    test('pulls every page of a large sync', async () => {
+        const a = createDevice('device-a', server.endpoint);
+        const b = createDevice('device-b', server.endpoint);
+        for (let i = 0; i < 1200; i++) edit(a, { id: `page-${i}`, name: `Employee ${i}` }, at(0));
+        await sync(a);
+        await sync(b);
+
+        assert.equal(b.employees.filter((employee) => employee.id.startsWith('page-')).length, 1200);
+    });
+});
+
+describe('sync server with a token and a data file', () => {
+    const dataDir = mkdtempSync(path.join(tmpdir(), 'sync-server-'));
+    const env = { SYNC_TOKEN: 'secret', SYNC_DATA_FILE: path.join(dataDir, 'sync-data.json') };
+    let server: Server;
+
+    before(async () => {
+        server = await startServer(env);
+    });
+
+    after(async () => {
+        await server.stop();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('a rejected token keeps the outbox until the sync is retried with the right one', async () => {
+        const a = createDevice('device-a', server.endpoint, 'wrong');
+        edit(a, { id: 'token-1', name: 'Ada' }, at(0));
+
+        await assert.rejects(sync(a), (error) => error instanceof SyncError && error.reason === 'http' && error.status === 401);
+        assert.equal(a.outbox.length, 1);
+
+        a.settings.token = 'secret';
+        await sync(a);
+        assert.deepEqual(a.outbox, []);
+    });
+
+    test('a device keeps syncing from its cursor after the server restarts', async () => {
+        const a = createDevice('device-a', server.endpoint, 'secret');
+        const b = createDevice('device-b', server.endpoint, 'secret');
+        edit(a, { id: 'restart-1', name: 'Before' }, at(0));
+        await sync(a);
+        await sync(b);
+        const cursor = b.cursor;
+
+        const port = Number(new URL(server.endpoint).port);
+        await server.stop();
+        edit(a, { id: 'restart-1', name: 'After' }, at(1));
+        await assert.rejects(sync(a), (error) => error instanceof SyncError && error.reason === 'network');
+
+        server = await startServer(env, port);
+        await sync(a);
+        await sync(b);
+        assert.equal(nameOf(b, 'restart-1'), 'After');
+        assert.notEqual(b.cursor, cursor);
+    });
+});